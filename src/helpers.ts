@@ -4,6 +4,22 @@ export function isPromise<T = unknown>(value: unknown): value is Promise<T> {
   );
 }
 
+/**
+ * @internal
+ * Check whether a value is a plain object (an object literal or an object without a prototype).
+ */
+export function isPlainObject(
+  value: unknown,
+): value is Record<string, unknown> {
+  if (typeof value !== "object" || value === null) {
+    return false;
+  }
+
+  const proto = Object.getPrototypeOf(value);
+
+  return proto === Object.prototype || proto === null;
+}
+
 /**
  * @internal
  * List of primitive types.
@@ -16,3 +32,75 @@ export type Primitive =
   | boolean
   | symbol
   | bigint;
+
+/**
+ * @internal
+ * Reject promises in a callback return type, so they have to go through a dedicated async variant.
+ */
+export type NotPromise<T> = T extends PromiseLike<unknown> ? never : T;
+
+/**
+ * @internal
+ * Wait for the given amount of milliseconds.
+ *
+ * Rejects with the reason of the signal if it gets aborted.
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timeout);
+      reject(signal?.reason);
+    };
+    const timeout = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+/**
+ * @internal
+ * Convert any value into a readable string.
+ *
+ * Objects are converted to JSON if possible.
+ */
+export function stringify(value: unknown): string {
+  if (typeof value === "object" && value !== null) {
+    try {
+      const json = JSON.stringify(value);
+
+      if (json !== undefined) {
+        return json;
+      }
+    } catch {
+      // Fall back to the default conversion
+    }
+  }
+
+  return String(value);
+}
+
+/**
+ * @internal
+ * Describe a value for error messages.
+ *
+ * Errors are shown as `name: message`, strings are quoted and anything else goes through {@link stringify}.
+ */
+export function describeValue(value: unknown): string {
+  if (value instanceof Error) {
+    return value.message ? `${value.name}: ${value.message}` : value.name;
+  }
+
+  if (typeof value === "string") {
+    return JSON.stringify(value);
+  }
+
+  return stringify(value);
+}
@@ -1,8 +1,16 @@
 /* v8 ignore */
+import * as option from "./option";
 import * as impl from "./result";
+import * as safe from "./safe";
 export * from "./result";
+export type { None, Option, OptionValue, Some } from "./option";
+export type * from "./standard-schema";
 
 export const $result = impl;
 export const result = impl;
 export const ishod = impl;
 export const $r = impl;
+
+export const $option = option;
+
+export const $safe = safe;
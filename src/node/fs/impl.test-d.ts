@@ -0,0 +1,48 @@
+import type { BigIntStats, Dirent, Stats } from "node:fs";
+import { describe, expectTypeOf, it } from "vitest";
+import type { Result } from "../../result/types";
+import {
+  type FileSystemError,
+  type FsError,
+  mkdir,
+  readFile,
+  readdir,
+  stat,
+} from "./impl";
+
+describe("FsError", () => {
+  it("should be discriminated by the code", () => {
+    const error = {} as FsError;
+
+    if (error.code === "ENOENT") {
+      expectTypeOf(error).toEqualTypeOf<FileSystemError<"ENOENT">>();
+    }
+  });
+});
+
+describe("return types", () => {
+  it("should follow the options", () => {
+    expectTypeOf(readFile("file", "utf8")).toEqualTypeOf<
+      Promise<Result<string, FsError>>
+    >();
+    expectTypeOf(readFile("file")).toEqualTypeOf<
+      Promise<Result<Buffer, FsError>>
+    >();
+    expectTypeOf(stat("file")).toEqualTypeOf<Promise<Result<Stats, FsError>>>();
+    expectTypeOf(stat("file", { bigint: true })).toEqualTypeOf<
+      Promise<Result<BigIntStats, FsError>>
+    >();
+    expectTypeOf(readdir("dir")).toEqualTypeOf<
+      Promise<Result<string[], FsError>>
+    >();
+    expectTypeOf(readdir("dir", { withFileTypes: true })).toEqualTypeOf<
+      Promise<Result<Dirent[], FsError>>
+    >();
+    expectTypeOf(mkdir("dir", { recursive: true })).toEqualTypeOf<
+      Promise<Result<string | undefined, FsError>>
+    >();
+    expectTypeOf(mkdir("dir")).toEqualTypeOf<
+      Promise<Result<undefined, FsError>>
+    >();
+  });
+});
@@ -0,0 +1,179 @@
+import { rm as fsRm, mkdtemp } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { ok, unwrapErr } from "../../result/impl";
+import type { Err } from "../../result/types";
+import * as $fs from "./impl";
+
+let dir: string;
+
+beforeEach(async () => {
+  dir = await mkdtemp(join(tmpdir(), "ishod-"));
+});
+
+afterEach(async () => {
+  await fsRm(dir, { recursive: true, force: true });
+});
+
+function errorOf(result: { ok: boolean }): $fs.FsError {
+  return unwrapErr(result as Err<$fs.FsError>);
+}
+
+describe("readFile and writeFile", () => {
+  it("should write and read a file", async () => {
+    const file = join(dir, "file.txt");
+
+    await expect($fs.writeFile(file, "ishod")).resolves.toStrictEqual(
+      ok(undefined),
+    );
+    await expect($fs.readFile(file, "utf8")).resolves.toStrictEqual(
+      ok("ishod"),
+    );
+    await expect($fs.readFile(file)).resolves.toStrictEqual(
+      ok(Buffer.from("ishod")),
+    );
+  });
+
+  it("should return an ENOENT error for missing files", async () => {
+    const file = join(dir, "missing.txt");
+    const error = errorOf(await $fs.readFile(file, "utf8"));
+
+    expect(error).toBeInstanceOf($fs.FileSystemError);
+    expect(error).toMatchObject({
+      code: "ENOENT",
+      path: file,
+      syscall: "open",
+    });
+    expect((error.cause as NodeJS.ErrnoException).code).toBe("ENOENT");
+  });
+
+  it("should return an EISDIR error for directories", async () => {
+    const error = errorOf(await $fs.readFile(dir, "utf8"));
+
+    expect(error.code).toBe("EISDIR");
+  });
+
+  it("should return an ABORT_ERR error for aborted reads", async () => {
+    const file = join(dir, "file.txt");
+    await $fs.writeFile(file, "ishod");
+
+    const error = errorOf(
+      await $fs.readFile(file, {
+        encoding: "utf8",
+        signal: AbortSignal.abort(),
+      }),
+    );
+
+    expect(error).toBeInstanceOf($fs.FileSystemError);
+    expect(error).toMatchObject({ code: "ABORT_ERR", syscall: undefined });
+    expect((error.cause as Error).name).toBe("AbortError");
+  });
+
+  it("should rethrow errors that don't come from the file system", async () => {
+    await expect($fs.readFile(42 as unknown as string)).rejects.toThrow(
+      TypeError,
+    );
+  });
+});
+
+describe("stat", () => {
+  it("should return the stats", async () => {
+    const result = await $fs.stat(dir);
+
+    expect(result.ok && result.data.isDirectory()).toBe(true);
+  });
+
+  it("should return bigint stats", async () => {
+    const result = await $fs.stat(dir, { bigint: true });
+
+    expect(result.ok && typeof result.data.size).toBe("bigint");
+  });
+
+  it("should return an ENOENT error for missing files", async () => {
+    expect(errorOf(await $fs.stat(join(dir, "missing"))).code).toBe("ENOENT");
+  });
+});
+
+describe("readdir", () => {
+  it("should list the names", async () => {
+    await $fs.writeFile(join(dir, "a"), "");
+    await $fs.mkdir(join(dir, "b"));
+
+    const result = await $fs.readdir(dir);
+
+    expect(result.ok && result.data.sort()).toStrictEqual(["a", "b"]);
+  });
+
+  it("should list the entries with file types", async () => {
+    await $fs.mkdir(join(dir, "b"));
+
+    const result = await $fs.readdir(dir, { withFileTypes: true });
+
+    expect(result.ok && result.data[0]?.isDirectory()).toBe(true);
+  });
+
+  it("should return an ENOTDIR error for files", async () => {
+    const file = join(dir, "a");
+    await $fs.writeFile(file, "");
+
+    expect(errorOf(await $fs.readdir(file)).code).toBe("ENOTDIR");
+  });
+});
+
+describe("mkdir", () => {
+  it("should return the first created directory when recursive", async () => {
+    await expect(
+      $fs.mkdir(join(dir, "a", "b"), { recursive: true }),
+    ).resolves.toStrictEqual(ok(join(dir, "a")));
+  });
+
+  it("should return an EEXIST error for existing directories", async () => {
+    const error = errorOf(await $fs.mkdir(dir));
+
+    expect(error).toMatchObject({ code: "EEXIST", syscall: "mkdir" });
+  });
+});
+
+describe("rm", () => {
+  it("should remove files", async () => {
+    const file = join(dir, "a");
+    await $fs.writeFile(file, "");
+
+    await expect($fs.rm(file)).resolves.toStrictEqual(ok(undefined));
+    expect(errorOf(await $fs.stat(file)).code).toBe("ENOENT");
+  });
+
+  it("should return an error for non-empty directories", async () => {
+    await $fs.writeFile(join(dir, "a"), "");
+
+    const error = errorOf(await $fs.rm(dir));
+
+    expect(error).toBeInstanceOf($fs.FileSystemError);
+    expect(error.path).toBe(dir);
+  });
+});
+
+describe("rename", () => {
+  it("should rename files", async () => {
+    const from = join(dir, "a");
+    const to = join(dir, "b");
+    await $fs.writeFile(from, "ishod");
+
+    await expect($fs.rename(from, to)).resolves.toStrictEqual(ok(undefined));
+    await expect($fs.readFile(to, "utf8")).resolves.toStrictEqual(ok("ishod"));
+  });
+
+  it("should set the path and the destination on errors", async () => {
+    const from = join(dir, "missing");
+    const to = join(dir, "b");
+    const error = errorOf(await $fs.rename(from, to));
+
+    expect(error).toMatchObject({
+      code: "ENOENT",
+      path: from,
+      dest: to,
+      syscall: "rename",
+    });
+  });
+});
@@ -0,0 +1,303 @@
+import type {
+  BigIntStats,
+  Dirent,
+  MakeDirectoryOptions,
+  Mode,
+  ObjectEncodingOptions,
+  OpenMode,
+  PathLike,
+  RmOptions,
+  StatOptions,
+  Stats,
+} from "node:fs";
+import * as fs from "node:fs/promises";
+import { try$ } from "../../result/impl";
+import { defineError } from "../../result/tagged";
+import type { Result } from "../../result/types";
+
+/**
+ * The error codes that get their own variant in {@link FsError}.
+ *
+ * Any other code is reported as `"UNKNOWN"`, with the original error as the `cause`.
+ */
+export const FS_ERROR_CODES = [
+  "ENOENT",
+  "EACCES",
+  "EPERM",
+  "EEXIST",
+  "EISDIR",
+  "ENOTDIR",
+  "ENOTEMPTY",
+  "EBUSY",
+  "EMFILE",
+  "ENFILE",
+  "ENOSPC",
+  "EROFS",
+  "EXDEV",
+  "ELOOP",
+  "ENAMETOOLONG",
+  "EINVAL",
+  "EIO",
+  "ABORT_ERR",
+] as const;
+
+/**
+ * A code of a file system error.
+ *
+ * @see {@link FS_ERROR_CODES}
+ */
+export type FsErrorCode = (typeof FS_ERROR_CODES)[number] | "UNKNOWN";
+
+/**
+ * An error returned by the file system functions.
+ *
+ * The `path` (and `dest` for {@link rename}) and the `syscall` are taken from the original error,
+ * which is kept as the `cause`.
+ *
+ * Operations stopped through their `signal` option have the `"ABORT_ERR"` code and no `syscall`.
+ *
+ * @see {@link FsError}
+ */
+export class FileSystemError<
+  Code extends FsErrorCode = FsErrorCode,
+> extends defineError("FileSystemError")<{
+  message: string;
+  path: string | undefined;
+  dest: string | undefined;
+  syscall: string | undefined;
+  errno: number | undefined;
+}>() {
+  declare readonly code: Code;
+}
+
+/**
+ * The error of every file system function, as a union discriminated by the `code`.
+ *
+ * @example
+ * ```ts
+ * const result = await readFile("config.json", "utf8");
+ *
+ * if (isErr(result) && result.error.code === "ENOENT") {
+ *   // result.error is a FileSystemError<"ENOENT">
+ * }
+ * ```
+ */
+export type FsError = {
+  [Code in FsErrorCode]: FileSystemError<Code>;
+}[FsErrorCode];
+
+function isSystemError(error: unknown): error is NodeJS.ErrnoException {
+  return (
+    error instanceof Error &&
+    typeof (error as NodeJS.ErrnoException).syscall === "string"
+  );
+}
+
+function isAbortError(error: unknown): error is NodeJS.ErrnoException {
+  return error instanceof Error && error.name === "AbortError";
+}
+
+function isKnownCode(code: string | undefined): code is FsErrorCode {
+  return (FS_ERROR_CODES as readonly (string | undefined)[]).includes(code);
+}
+
+/**
+ * Turn a file system exception into an {@link FsError}.
+ *
+ * Errors that don't come from a system call or an aborted signal (like invalid arguments) are bugs,
+ * so they are rethrown.
+ */
+function toFsError(error: unknown): FsError {
+  if (!isSystemError(error) && !isAbortError(error)) {
+    throw error;
+  }
+
+  const fsError = new FileSystemError(
+    {
+      message: error.message,
+      path: error.path,
+      dest: (error as { dest?: string }).dest,
+      syscall: error.syscall,
+      errno: error.errno,
+    },
+    { cause: error },
+  );
+
+  return Object.assign(fsError, {
+    code: isKnownCode(error.code) ? error.code : "UNKNOWN",
+  }) as FsError;
+}
+
+function wrap<T>(promise: Promise<T>): Promise<Result<T, FsError>> {
+  return try$(promise, { mapError: toFsError });
+}
+
+/**
+ * Read the contents of a file, like `fs.promises.readFile`.
+ *
+ * With an encoding, the contents are returned as a string. Otherwise, a `Buffer` is returned.
+ *
+ * @example
+ * ```ts
+ * const config = await readFile("config.json", "utf8");
+ * // config is a Result<string, FsError>
+ * ```
+ */
+export function readFile(
+  path: PathLike | fs.FileHandle,
+  options:
+    | { encoding: BufferEncoding; flag?: OpenMode; signal?: AbortSignal }
+    | BufferEncoding,
+): Promise<Result<string, FsError>>;
+export function readFile(
+  path: PathLike | fs.FileHandle,
+  options?: { encoding?: null; flag?: OpenMode; signal?: AbortSignal } | null,
+): Promise<Result<Buffer, FsError>>;
+export function readFile(
+  path: PathLike | fs.FileHandle,
+  options?:
+    | {
+        encoding?: BufferEncoding | null;
+        flag?: OpenMode;
+        signal?: AbortSignal;
+      }
+    | BufferEncoding
+    | null,
+): Promise<Result<string | Buffer, FsError>> {
+  return wrap(fs.readFile(path, options ?? null));
+}
+
+/**
+ * Write data to a file, like `fs.promises.writeFile`.
+ *
+ * @example
+ * ```ts
+ * const result = await writeFile("cache.json", JSON.stringify(cache));
+ * // result is a Result<void, FsError>
+ * ```
+ */
+export function writeFile(
+  file: PathLike | fs.FileHandle,
+  data: Parameters<typeof fs.writeFile>[1],
+  options?: Parameters<typeof fs.writeFile>[2],
+): Promise<Result<void, FsError>> {
+  return wrap(fs.writeFile(file, data, options));
+}
+
+/**
+ * Get information about a file, like `fs.promises.stat`.
+ *
+ * Missing files are always returned as an `Err`, so `throwIfNoEntry` can't be disabled.
+ *
+ * @example
+ * ```ts
+ * const result = await stat("cache.json");
+ * const exists = isOk(result) || result.error.code !== "ENOENT";
+ * ```
+ */
+export function stat(
+  path: PathLike,
+  options: StatOptions & { bigint: true; throwIfNoEntry?: true },
+): Promise<Result<BigIntStats, FsError>>;
+export function stat(
+  path: PathLike,
+  options?: StatOptions & { bigint?: false; throwIfNoEntry?: true },
+): Promise<Result<Stats, FsError>>;
+export function stat(
+  path: PathLike,
+  options?: StatOptions & { throwIfNoEntry?: true },
+): Promise<Result<Stats | BigIntStats, FsError>> {
+  return wrap(fs.stat(path, options) as Promise<Stats | BigIntStats>);
+}
+
+/**
+ * List the contents of a directory, like `fs.promises.readdir`.
+ *
+ * With `withFileTypes`, `Dirent` objects are returned instead of names.
+ *
+ * @example
+ * ```ts
+ * const files = await readdir("logs");
+ * // files is a Result<string[], FsError>
+ * ```
+ */
+export function readdir(
+  path: PathLike,
+  options: ObjectEncodingOptions & { withFileTypes: true; recursive?: boolean },
+): Promise<Result<Dirent[], FsError>>;
+export function readdir(
+  path: PathLike,
+  options?:
+    | (ObjectEncodingOptions & { withFileTypes?: false; recursive?: boolean })
+    | BufferEncoding
+    | null,
+): Promise<Result<string[], FsError>>;
+export function readdir(
+  path: PathLike,
+  options?:
+    | (ObjectEncodingOptions & { withFileTypes?: boolean; recursive?: boolean })
+    | BufferEncoding
+    | null,
+): Promise<Result<string[] | Dirent[], FsError>> {
+  return wrap(fs.readdir(path, options as ObjectEncodingOptions));
+}
+
+/**
+ * Create a directory, like `fs.promises.mkdir`.
+ *
+ * With `recursive`, the first directory that had to be created is returned.
+ *
+ * @example
+ * ```ts
+ * const result = await mkdir("cache/images", { recursive: true });
+ * // result is a Result<string | undefined, FsError>
+ * ```
+ */
+export function mkdir(
+  path: PathLike,
+  options: MakeDirectoryOptions & { recursive: true },
+): Promise<Result<string | undefined, FsError>>;
+export function mkdir(
+  path: PathLike,
+  options?: Mode | (MakeDirectoryOptions & { recursive?: false }) | null,
+): Promise<Result<undefined, FsError>>;
+export function mkdir(
+  path: PathLike,
+  options?: Mode | MakeDirectoryOptions | null,
+): Promise<Result<string | undefined, FsError>> {
+  return wrap(fs.mkdir(path, options));
+}
+
+/**
+ * Remove a file or a directory, like `fs.promises.rm`.
+ *
+ * @example
+ * ```ts
+ * const result = await rm("cache", { recursive: true, force: true });
+ * // result is a Result<void, FsError>
+ * ```
+ */
+export function rm(
+  path: PathLike,
+  options?: RmOptions,
+): Promise<Result<void, FsError>> {
+  return wrap(fs.rm(path, options));
+}
+
+/**
+ * Rename a file or a directory, like `fs.promises.rename`.
+ *
+ * The error has both the `path` and the `dest` set.
+ *
+ * @example
+ * ```ts
+ * const result = await rename("cache.json.tmp", "cache.json");
+ * // result is a Result<void, FsError>
+ * ```
+ */
+export function rename(
+  oldPath: PathLike,
+  newPath: PathLike,
+): Promise<Result<void, FsError>> {
+  return wrap(fs.rename(oldPath, newPath));
+}
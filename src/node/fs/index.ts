@@ -0,0 +1,2 @@
+/* v8 ignore */
+export * from "./impl";
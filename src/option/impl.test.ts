@@ -0,0 +1,146 @@
+import { describe, expect, it, vi } from "vitest";
+import { err, ok } from "../result/impl";
+import * as $option from "./impl";
+
+describe("option", () => {
+  it.each([
+    [$option.some("some"), '{"some":true,"value":"some"}'],
+    [$option.none(), '{"some":false}'],
+  ])("should stringify nicely: %p", (option, expected) => {
+    expect(JSON.stringify(option)).toBe(expected);
+  });
+});
+
+describe("fromNullable", () => {
+  it.each([[0], [""], [false], [{}]])(
+    "should return a some for present values: %p",
+    (value) => {
+      expect($option.fromNullable(value)).toStrictEqual($option.some(value));
+    },
+  );
+
+  it.each([[null], [undefined]])(
+    "should return a none for absent values: %p",
+    (value) => {
+      expect($option.fromNullable(value)).toStrictEqual($option.none());
+    },
+  );
+
+  it("should wait for promise values", async () => {
+    await expect(
+      $option.fromNullable(Promise.resolve(1)),
+    ).resolves.toStrictEqual($option.some(1));
+    await expect(
+      $option.fromNullable(Promise.resolve(null)),
+    ).resolves.toStrictEqual($option.none());
+  });
+});
+
+describe("isSome", () => {
+  it("should return true if the option is a some", () => {
+    expect($option.isSome($option.some(Symbol("value")))).toBe(true);
+  });
+
+  it("should return false if the option is a none", () => {
+    expect($option.isSome($option.none())).toBe(false);
+  });
+});
+
+describe("isNone", () => {
+  it("should return true if the option is a none", () => {
+    expect($option.isNone($option.none())).toBe(true);
+  });
+
+  it("should return false if the option is a some", () => {
+    expect($option.isNone($option.some(Symbol("value")))).toBe(false);
+  });
+});
+
+describe("unwrap", () => {
+  it("should return the value if the option is a some", () => {
+    const value = Symbol("value");
+
+    expect($option.unwrap($option.some(value))).toBe(value);
+  });
+
+  it("should return the value if the option is a some promise", async () => {
+    const value = Symbol("value");
+
+    await expect(
+      $option.unwrap(Promise.resolve($option.some(value))),
+    ).resolves.toBe(value);
+  });
+});
+
+describe("unwrapOr", () => {
+  it("should return the value if the option is a some", () => {
+    const value = Symbol("value");
+
+    expect($option.unwrapOr($option.some(value), Symbol("fallback"))).toBe(
+      value,
+    );
+  });
+
+  it("should return the fallback if the option is a none", async () => {
+    const fallback = Symbol("fallback");
+
+    expect($option.unwrapOr($option.none(), fallback)).toBe(fallback);
+    await expect(
+      $option.unwrapOr(Promise.resolve($option.none()), fallback),
+    ).resolves.toBe(fallback);
+  });
+});
+
+describe("map", () => {
+  it("should map the value if the option is a some", () => {
+    const mapped = Symbol("mapped");
+    const fn = vi.fn().mockReturnValue(mapped);
+
+    expect($option.map($option.some(1), fn)).toStrictEqual(
+      $option.some(mapped),
+    );
+    expect(fn).toHaveBeenCalledWith(1);
+  });
+
+  it("should not map if the option is a none", () => {
+    const fn = vi.fn();
+
+    expect($option.map($option.none(), fn)).toStrictEqual($option.none());
+    expect(fn).not.toHaveBeenCalled();
+  });
+
+  it("should wait for async callbacks and promise options", async () => {
+    await expect(
+      $option.map($option.some(1), async (x) => x + 1),
+    ).resolves.toStrictEqual($option.some(2));
+    await expect(
+      $option.map(Promise.resolve($option.some(1)), (x) => x + 1),
+    ).resolves.toStrictEqual($option.some(2));
+  });
+});
+
+describe("okOr", () => {
+  it("should convert a some into an ok", () => {
+    expect($option.okOr($option.some(1), "error")).toStrictEqual(ok(1));
+  });
+
+  it("should convert a none into an err", async () => {
+    expect($option.okOr($option.none(), "error")).toStrictEqual(err("error"));
+    await expect(
+      $option.okOr(Promise.resolve($option.none()), "error"),
+    ).resolves.toStrictEqual(err("error"));
+  });
+});
+
+describe("toOption", () => {
+  it("should convert an ok into a some", () => {
+    expect($option.toOption(ok(1))).toStrictEqual($option.some(1));
+  });
+
+  it("should convert an err into a none", async () => {
+    expect($option.toOption(err("error"))).toStrictEqual($option.none());
+    await expect(
+      $option.toOption(Promise.resolve(err("error"))),
+    ).resolves.toStrictEqual($option.none());
+  });
+});
@@ -0,0 +1,311 @@
+import { type Primitive, isPromise } from "../helpers";
+import { err, isOk, ok } from "../result/impl";
+import type { Result } from "../result/types";
+import type { None, Option, Some } from "./types";
+
+/**
+ * Create a `Some` variant.
+ *
+ * @example
+ * ```ts
+ * const someOption: Some<number> = some(1);
+ * const someOption2: Some<"hello"> = some("hello");
+ * ```
+ */
+export function some<const T extends Primitive>(value: T): Some<T>;
+export function some<T>(value: T): Some<T>;
+export function some<T>(value: T): Some<T> {
+  return {
+    some: true,
+    value: value,
+  };
+}
+
+/**
+ * Create a `None` variant.
+ *
+ * @example
+ * ```ts
+ * const noneOption: None = none();
+ * ```
+ */
+export function none(): None {
+  return {
+    some: false,
+  };
+}
+
+/**
+ * Create an option from a value that may be `null` or `undefined`.
+ *
+ * If the value is `null` or `undefined`, a `None` is returned.
+ *
+ * Otherwise, the value is wrapped in a `Some`.
+ *
+ * @example
+ * ```ts
+ * const option: Option<number> = fromNullable(1 as number | null); // Some<1>
+ * const option2: Option<number> = fromNullable(null as number | null); // None
+ * ```
+ * @example
+ * ```ts
+ * const option: Promise<Option<User>> = fromNullable(findUser(id)); // Promise<Some<User> | None>
+ * ```
+ */
+export function fromNullable<T>(
+  value: Promise<T>,
+): Promise<Option<NonNullable<T>>>;
+export function fromNullable<const T extends Primitive>(
+  value: T,
+): Option<NonNullable<T>>;
+export function fromNullable<T>(value: T): Option<NonNullable<T>>;
+export function fromNullable<T>(
+  value: T | Promise<T>,
+): Option<NonNullable<T>> | Promise<Option<NonNullable<T>>> {
+  if (isPromise(value)) {
+    return value.then((x) => fromNullable(x));
+  }
+
+  if (value === null || value === undefined) {
+    return none();
+  }
+
+  return some(value as NonNullable<T>);
+}
+
+/**
+ * Used to check if an option is a `Some`.
+ *
+ * @example
+ * ```ts
+ * const option: Option<number> = some(1);
+ * const isSomeOption: boolean = isSome(option); // true
+ * ```
+ * @example
+ * ```ts
+ * if (isSome(option)) {
+ * 	// We now know that the option is a Some
+ * 	const value: number = unwrap(option); // 1
+ * }
+ * ```
+ */
+export function isSome<T>(option: Option<T>): option is Some<T> {
+  return option.some;
+}
+
+/**
+ * Used to check if an option is a `None`.
+ *
+ * @example
+ * ```ts
+ * const option: Option<number> = none();
+ * const isNoneOption: boolean = isNone(option); // true
+ * ```
+ */
+export function isNone<T>(option: Option<T>): option is None {
+  return !option.some;
+}
+
+/**
+ * Get the value from a `Some` option.
+ *
+ * @example
+ * ```ts
+ * const option = some(1);
+ * const value: number = unwrap(option); // 1
+ * ```
+ * @example
+ * ```ts
+ * const option = Promise.resolve(some(1));
+ * const value: Promise<number> = unwrap(option); // Promise<1>
+ * ```
+ *
+ * @see {@link unwrapOr}
+ */
+export function unwrap<T>(option: Some<T>): T;
+export function unwrap<T>(option: Promise<Some<T>>): Promise<T>;
+export function unwrap<T>(option: Some<T> | Promise<Some<T>>): T | Promise<T> {
+  if (isPromise(option)) {
+    return option.then((x) => unwrap(x));
+  }
+
+  return option.value;
+}
+
+/**
+ * Unwrap an option and return a default value if the option is a `None`.
+ *
+ * @example
+ * ```ts
+ * const value = unwrapOr(some(1), 0); // 1
+ * const value2 = unwrapOr(none(), 0); // 0
+ * ```
+ * @example
+ * ```ts
+ * const option: Promise<Option<number>> = Promise.resolve(none());
+ * const value: Promise<number> = unwrapOr(option, 0); // Promise<0>
+ * ```
+ *
+ * @see {@link unwrap}
+ */
+export function unwrapOr<T, const U extends Primitive>(
+  option: Promise<Option<T>>,
+  or: U,
+): Promise<T | U>;
+export function unwrapOr<T, U>(
+  option: Promise<Option<T>>,
+  or: U,
+): Promise<T | U>;
+export function unwrapOr<T, const U extends Primitive>(
+  option: Option<T>,
+  or: U,
+): T | U;
+export function unwrapOr<T, U>(option: Option<T>, or: U): T | U;
+export function unwrapOr<T, U>(
+  option: Option<T> | Promise<Option<T>>,
+  or: U,
+): T | U | Promise<T | U> {
+  if (isPromise(option)) {
+    return option.then((x) => unwrapOr(x, or));
+  }
+
+  if (isSome(option)) {
+    return option.value;
+  }
+
+  return or;
+}
+
+/**
+ * Map the value of an option.
+ *
+ * If the option is a `Some`, the function will be called with the value the option contains,
+ * and the result will be returned as a new `Some`.
+ *
+ * On a `None`, the function will not be called, and a `None` will be returned.
+ *
+ * Unlike the result `map`, exceptions thrown by the function are not caught.
+ *
+ * @example
+ * ```ts
+ * const option = map(some(1), (value) => value + 1); // Some<2>
+ * const option2 = map(none(), (value) => value + 1); // None
+ * ```
+ */
+export function map<T, const U extends Primitive>(
+  option: Promise<Option<T>>,
+  fn: (value: T) => U | Promise<U>,
+): Promise<Option<U>>;
+export function map<T, const U extends Primitive>(
+  option: Option<T>,
+  fn: (value: T) => Promise<U>,
+): Promise<Option<U>>;
+export function map<T, const U extends Primitive>(
+  option: Option<T>,
+  fn: (value: T) => U,
+): Option<U>;
+export function map<T, U>(
+  option: Promise<Option<T>>,
+  fn: (value: T) => U | Promise<U>,
+): Promise<Option<U>>;
+export function map<T, U>(
+  option: Option<T>,
+  fn: (value: T) => Promise<U>,
+): Promise<Option<U>>;
+export function map<T, U>(option: Option<T>, fn: (value: T) => U): Option<U>;
+export function map<T, U>(
+  option: Option<T> | Promise<Option<T>>,
+  fn: (value: T) => U | Promise<U>,
+): Option<U> | Promise<Option<U>> {
+  if (isPromise(option)) {
+    return option.then((x) => map(x, fn as (value: T) => U));
+  }
+
+  if (isNone(option)) {
+    return option;
+  }
+
+  const value = fn(option.value);
+
+  if (isPromise(value)) {
+    return value.then((x) => some(x));
+  }
+
+  return some(value);
+}
+
+/**
+ * Convert an option into a result.
+ *
+ * A `Some` becomes an `Ok` with the same value.
+ *
+ * A `None` becomes an `Err` with the provided error.
+ *
+ * @example
+ * ```ts
+ * const result: Result<number, "missing"> = okOr(some(1), "missing"); // Ok<1>
+ * const result2: Result<number, "missing"> = okOr(none(), "missing"); // Err<"missing">
+ * ```
+ *
+ * @see {@link toOption}
+ */
+export function okOr<T, const E extends Primitive>(
+  option: Promise<Option<T>>,
+  error: E,
+): Promise<Result<T, E>>;
+export function okOr<T, E>(
+  option: Promise<Option<T>>,
+  error: E,
+): Promise<Result<T, E>>;
+export function okOr<T, const E extends Primitive>(
+  option: Option<T>,
+  error: E,
+): Result<T, E>;
+export function okOr<T, E>(option: Option<T>, error: E): Result<T, E>;
+export function okOr<T, E>(
+  option: Option<T> | Promise<Option<T>>,
+  error: E,
+): Result<T, E> | Promise<Result<T, E>> {
+  if (isPromise(option)) {
+    return option.then((x) => okOr(x, error));
+  }
+
+  if (isSome(option)) {
+    return ok(option.value);
+  }
+
+  return err(error);
+}
+
+/**
+ * Convert a result into an option.
+ *
+ * An `Ok` becomes a `Some` with the same value.
+ *
+ * An `Err` becomes a `None`, and the error is discarded.
+ *
+ * @example
+ * ```ts
+ * const option: Option<number> = toOption(ok(1)); // Some<1>
+ * const option2: Option<number> = toOption(err("error")); // None
+ * ```
+ *
+ * @see {@link okOr}
+ */
+export function toOption<T, E>(
+  result: Promise<Result<T, E>>,
+): Promise<Option<T>>;
+export function toOption<T, E>(result: Result<T, E>): Option<T>;
+export function toOption<T, E>(
+  result: Result<T, E> | Promise<Result<T, E>>,
+): Option<T> | Promise<Option<T>> {
+  if (isPromise(result)) {
+    return result.then((x) => toOption(x));
+  }
+
+  if (isOk(result)) {
+    return some(result.data);
+  }
+
+  return none();
+}
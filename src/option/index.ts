@@ -0,0 +1,2 @@
+export * from "./impl";
+export * from "./types";
@@ -0,0 +1,63 @@
+import { describe, expectTypeOf, it } from "vitest";
+import type { Result } from "../result/types";
+import { fromNullable, map, okOr, some, toOption, unwrapOr } from "./impl";
+import type { None, Option, OptionValue, Some } from "./types";
+
+describe("OptionValue", () => {
+  it("should be the value if the option is a some", () => {
+    expectTypeOf<OptionValue<Some<string>>>().toEqualTypeOf<string>();
+  });
+
+  it("should be never if the option is a none", () => {
+    expectTypeOf<OptionValue<None>>().toEqualTypeOf<never>();
+  });
+});
+
+describe("some", () => {
+  it("should keep primitive literals", () => {
+    expectTypeOf(some("a thing")).toEqualTypeOf<Some<"a thing">>();
+  });
+});
+
+describe("fromNullable", () => {
+  it("should remove null and undefined from the value", () => {
+    expectTypeOf(fromNullable(null as string | null | undefined)).toEqualTypeOf<
+      Option<string>
+    >();
+    expectTypeOf(
+      fromNullable(Promise.resolve(null as number | null)),
+    ).toEqualTypeOf<Promise<Option<number>>>();
+  });
+});
+
+describe("unwrapOr", () => {
+  it("should be the union of the value and the fallback", () => {
+    expectTypeOf(unwrapOr({} as Option<number>, "none")).toEqualTypeOf<
+      number | "none"
+    >();
+  });
+});
+
+describe("map", () => {
+  it("should return a promise for async callbacks", () => {
+    expectTypeOf(
+      map({} as Option<number>, async (x) => x.toFixed()),
+    ).toEqualTypeOf<Promise<Option<string>>>();
+  });
+});
+
+describe("okOr", () => {
+  it("should use the error as the err type", () => {
+    expectTypeOf(okOr({} as Option<number>, "missing")).toEqualTypeOf<
+      Result<number, "missing">
+    >();
+  });
+});
+
+describe("toOption", () => {
+  it("should drop the error type", () => {
+    expectTypeOf(toOption({} as Result<number, string>)).toEqualTypeOf<
+      Option<number>
+    >();
+  });
+});
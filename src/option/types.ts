@@ -0,0 +1,56 @@
+/**
+ * An option is a type that can be either a `Some` or a `None`.
+ *
+ * It represents a value that may be absent, without treating the absence as an error.
+ *
+ * The two variants are mutually exclusive.
+ *
+ * @example
+ * ```ts
+ * const value: Option<number> = some(1);
+ * const nothing: Option<number> = none();
+ * ```
+ * @example
+ * ```ts
+ * const maybeUser: Option<User> = fromNullable(users.get(id));
+ * ```
+ */
+export type Option<T> = Some<T> | None;
+/**
+ * A `Some` is a type that represents a present value.
+ *
+ * @example
+ * ```ts
+ * const someOption: Some<number> = some(1);
+ * ```
+ */
+export type Some<T> = {
+  some: true;
+  value: T;
+};
+/**
+ * A `None` is a type that represents an absent value.
+ *
+ * @example
+ * ```ts
+ * const noneOption: None = none();
+ * ```
+ */
+export type None = {
+  some: false;
+};
+
+/**
+ * This type is used to get the value of an option.
+ *
+ * @example
+ * ```ts
+ * const thing: Option<number> = some(1);
+ * type OptionType = OptionValue<typeof thing>; // number
+ * ```
+ */
+export type OptionValue<TOption extends Option<unknown>> = TOption extends Some<
+  infer T
+>
+  ? T
+  : never;
@@ -0,0 +1,52 @@
+import { describe, expectTypeOf, it } from "vitest";
+import {
+  fromAsyncThrowable,
+  fromNodeCallback,
+  fromThrowable,
+} from "./adapters";
+import { toError } from "./impl";
+import type { Result } from "./types";
+
+describe("fromThrowable", () => {
+  it("should keep the parameters", () => {
+    const fn = fromThrowable((a: string, b?: number) => a.length + (b ?? 0));
+
+    expectTypeOf(fn).parameters.toEqualTypeOf<[a: string, b?: number]>();
+    expectTypeOf(fn).returns.toEqualTypeOf<Result<number, unknown>>();
+  });
+
+  it("should infer the error from the mapper", () => {
+    expectTypeOf(
+      fromThrowable(() => 1 as number, toError),
+    ).returns.toEqualTypeOf<Result<number, Error>>();
+  });
+
+  it("should return a promise for functions that return a promise", () => {
+    expectTypeOf(fromThrowable(async () => 1 as number)).returns.toEqualTypeOf<
+      Promise<Result<number, unknown>>
+    >();
+  });
+});
+
+describe("fromAsyncThrowable", () => {
+  it("should always return a promise", () => {
+    expectTypeOf(
+      fromAsyncThrowable((a: string) => a.length, toError),
+    ).toEqualTypeOf<(a: string) => Promise<Result<number, Error>>>();
+  });
+});
+
+describe("fromNodeCallback", () => {
+  it("should drop the callback from the parameters", () => {
+    const fn = fromNodeCallback(
+      (
+        path: string,
+        callback: (error: Error | null, data: Uint8Array) => void,
+      ) => callback(null, new Uint8Array()),
+    );
+
+    expectTypeOf(fn).toEqualTypeOf<
+      (path: string) => Promise<Result<Uint8Array, unknown>>
+    >();
+  });
+});
@@ -0,0 +1,144 @@
+import { describe, expect, it } from "vitest";
+import {
+  fromAsyncThrowable,
+  fromNodeCallback,
+  fromThrowable,
+} from "./adapters";
+import { err, ok, toError } from "./impl";
+
+const thrown = "error";
+
+describe("fromThrowable", () => {
+  it("should return an ok with the return value", () => {
+    const parse = fromThrowable(JSON.parse);
+
+    expect(parse('{"a":1}')).toStrictEqual(ok({ a: 1 }));
+  });
+
+  it("should return an err with the thrown error", () => {
+    const error = new Error("error");
+    const fn = fromThrowable(() => {
+      throw error;
+    });
+
+    expect(fn()).toStrictEqual(err(error));
+  });
+
+  it("should map the error", () => {
+    const fn = fromThrowable(() => {
+      throw thrown;
+    }, toError);
+
+    expect(fn()).toMatchObject(err({ message: "error", cause: "error" }));
+  });
+
+  it("should keep the this binding", () => {
+    const counter = {
+      count: 1,
+      increment: fromThrowable(function (this: { count: number }, by: number) {
+        this.count += by;
+
+        return this.count;
+      }),
+    };
+
+    expect(counter.increment(2)).toStrictEqual(ok(3));
+  });
+
+  it("should return a promise for functions that return a promise", async () => {
+    const fn = fromThrowable(async (x: number) => x * 2);
+
+    await expect(fn(2)).resolves.toStrictEqual(ok(4));
+  });
+});
+
+describe("fromAsyncThrowable", () => {
+  it("should return an ok with the resolved value", async () => {
+    const fn = fromAsyncThrowable(async (x: number) => x * 2);
+
+    await expect(fn(2)).resolves.toStrictEqual(ok(4));
+  });
+
+  it("should return an err if the function rejects", async () => {
+    const fn = fromAsyncThrowable(async () => {
+      throw thrown;
+    });
+
+    await expect(fn()).resolves.toStrictEqual(err("error"));
+  });
+
+  it("should return a promise even if the function throws synchronously", async () => {
+    const fn = fromAsyncThrowable((): number => {
+      throw thrown;
+    });
+
+    await expect(fn()).resolves.toStrictEqual(err("error"));
+  });
+
+  it("should map the error", async () => {
+    const fn = fromAsyncThrowable(
+      async () => {
+        throw thrown;
+      },
+      (error) => `mapped ${error}`,
+    );
+
+    await expect(fn()).resolves.toStrictEqual(err("mapped error"));
+  });
+});
+
+describe("fromNodeCallback", () => {
+  function divide(
+    a: number,
+    b: number,
+    callback: (error: Error | null, value: number) => void,
+  ) {
+    if (b === 0) {
+      callback(new Error("division by zero"), Number.NaN);
+    } else {
+      callback(null, a / b);
+    }
+  }
+
+  it("should return an ok with the callback value", async () => {
+    await expect(fromNodeCallback(divide)(6, 3)).resolves.toStrictEqual(ok(2));
+  });
+
+  it("should return an err with the callback error", async () => {
+    await expect(fromNodeCallback(divide)(6, 0)).resolves.toMatchObject(
+      err({ message: "division by zero" }),
+    );
+  });
+
+  it("should catch synchronous throws", async () => {
+    const fn = fromNodeCallback(
+      (_callback: (error: unknown, value: number) => void) => {
+        throw thrown;
+      },
+    );
+
+    await expect(fn()).resolves.toStrictEqual(err("error"));
+  });
+
+  it("should keep the this binding", async () => {
+    const store = {
+      value: "stored",
+      get: fromNodeCallback(function (
+        this: { value: string },
+        callback: (error: null, value: string) => void,
+      ) {
+        setTimeout(() => callback(null, this.value));
+      }),
+    };
+
+    await expect(store.get()).resolves.toStrictEqual(ok("stored"));
+  });
+
+  it("should map the error", async () => {
+    const fn = fromNodeCallback(divide, toError);
+
+    await expect(fn(1, 0)).resolves.toMatchObject(
+      err({ message: "division by zero" }),
+    );
+  });
+});
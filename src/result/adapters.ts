@@ -0,0 +1,123 @@
+import { try$ } from "./impl";
+import type { Result } from "./types";
+
+/**
+ * A Node.js style callback, called with either an error or a value.
+ */
+export type NodeCallback<T> = (error: unknown, value: T) => void;
+
+/**
+ * Wrap a function that throws into a function that returns a result.
+ *
+ * The returned function has the same parameters and `this`,
+ * and catches errors the same way as {@link try$}.
+ *
+ * Functions that return a promise get a function that returns a promise of a result.
+ *
+ * @example
+ * ```ts
+ * const parse = fromThrowable(JSON.parse);
+ * const result = parse('{"a": 1}');
+ * // result is an Ok with the value { a: 1 }
+ * ```
+ * @example
+ * ```ts
+ * const parse = fromThrowable(JSON.parse, toError);
+ * const result = parse("nope");
+ * // result is a Result<any, Error>
+ * ```
+ *
+ * @see {@link fromAsyncThrowable}
+ * @see {@link try$}
+ */
+export function fromThrowable<A extends unknown[], T, E = unknown, This = void>(
+  fn: (this: This, ...args: A) => Promise<T>,
+  mapError?: (error: unknown) => E,
+): (this: This, ...args: A) => Promise<Result<T, E>>;
+export function fromThrowable<A extends unknown[], T, E = unknown, This = void>(
+  fn: (this: This, ...args: A) => T,
+  mapError?: (error: unknown) => E,
+): (this: This, ...args: A) => Result<T, E>;
+export function fromThrowable<A extends unknown[], T, E, This>(
+  fn: (this: This, ...args: A) => T,
+  mapError?: (error: unknown) => E,
+): (this: This, ...args: A) => Result<T, E> | Promise<Result<T, E>> {
+  return function (this: This, ...args: A) {
+    const run = () => fn.apply(this, args);
+
+    return mapError ? try$(run, { mapError }) : try$<T, E>(run);
+  };
+}
+
+/**
+ * Wrap an async function into a function that returns a promise of a result.
+ *
+ * Unlike {@link fromThrowable}, the returned function always returns a promise,
+ * even if the wrapped function throws synchronously.
+ *
+ * @example
+ * ```ts
+ * const readJson = fromAsyncThrowable(async (path: string) =>
+ *   JSON.parse(await readFile(path, "utf8")),
+ * );
+ * const result = await readJson("config.json");
+ * ```
+ *
+ * @see {@link fromThrowable}
+ * @see {@link fromNodeCallback}
+ */
+export function fromAsyncThrowable<
+  A extends unknown[],
+  T,
+  E = unknown,
+  This = void,
+>(
+  fn: (this: This, ...args: A) => T | Promise<T>,
+  mapError?: (error: unknown) => E,
+): (this: This, ...args: A) => Promise<Result<T, E>> {
+  return function (this: This, ...args: A) {
+    const run = async () => fn.apply(this, args);
+
+    return mapError ? try$(run, { mapError }) : try$<T, E>(run);
+  };
+}
+
+/**
+ * Wrap a Node.js style function that takes a callback as the last argument
+ * into a function that returns a promise of a result.
+ *
+ * The callback error becomes an `Err`, and the callback value an `Ok`.
+ * Errors thrown synchronously by the function are also caught.
+ *
+ * @example
+ * ```ts
+ * const readFile$ = fromNodeCallback(fs.readFile);
+ * const result = await readFile$("config.json");
+ * // result is a Result<Buffer, unknown>
+ * ```
+ *
+ * @see {@link fromAsyncThrowable}
+ */
+export function fromNodeCallback<
+  A extends unknown[],
+  T,
+  E = unknown,
+  This = void,
+>(
+  fn: (this: This, ...args: [...A, NodeCallback<T>]) => void,
+  mapError?: (error: unknown) => E,
+): (this: This, ...args: A) => Promise<Result<T, E>> {
+  return function (this: This, ...args: A) {
+    const work = new Promise<T>((resolve, reject) => {
+      fn.call(this, ...args, (error: unknown, value: T) => {
+        if (error !== null && error !== undefined) {
+          reject(error);
+        } else {
+          resolve(value);
+        }
+      });
+    });
+
+    return mapError ? try$(work, { mapError }) : try$<T, E>(work);
+  };
+}
@@ -0,0 +1,55 @@
+import { describe, expectTypeOf, it } from "vitest";
+import {
+  type UnwrapError,
+  assertErr,
+  assertOk,
+  expect,
+  unwrapOrThrow,
+} from "./assert";
+import type { Err, Ok, Result } from "./types";
+
+declare const result: Result<number, "not found">;
+
+describe("expect", () => {
+  it("should return the data type", () => {
+    expectTypeOf(expect(result, "message")).toEqualTypeOf<number>();
+    expectTypeOf(expect(Promise.resolve(result), "message")).toEqualTypeOf<
+      Promise<number>
+    >();
+  });
+});
+
+describe("unwrapOrThrow", () => {
+  it("should return the data type", () => {
+    expectTypeOf(unwrapOrThrow(result)).toEqualTypeOf<number>();
+    expectTypeOf(unwrapOrThrow(Promise.resolve(result))).toEqualTypeOf<
+      Promise<number>
+    >();
+  });
+});
+
+describe("assertOk", () => {
+  it("should narrow the result to an ok", () => {
+    const value = result;
+
+    assertOk(value);
+    expectTypeOf(value).toEqualTypeOf<Ok<number>>();
+  });
+});
+
+describe("assertErr", () => {
+  it("should narrow the result to an err", () => {
+    const value = result;
+
+    assertErr(value);
+    expectTypeOf(value).toEqualTypeOf<Err<"not found">>();
+  });
+});
+
+describe("UnwrapError", () => {
+  it("should keep the cause type", () => {
+    expectTypeOf<
+      UnwrapError<"not found">["cause"]
+    >().toEqualTypeOf<"not found">();
+  });
+});
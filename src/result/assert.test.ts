@@ -0,0 +1,104 @@
+import { describe, expect, it } from "vitest";
+import * as $assert from "./assert";
+import { err, ok } from "./impl";
+
+function thrown(fn: () => unknown): unknown {
+  try {
+    fn();
+  } catch (e) {
+    return e;
+  }
+
+  throw new Error("Expected the function to throw");
+}
+
+describe("expect", () => {
+  it("should return the data of an ok", () => {
+    expect($assert.expect(ok(1), "message")).toBe(1);
+  });
+
+  it("should throw an UnwrapError with the error as the cause", () => {
+    const cause = new TypeError("invalid");
+    const error = thrown(() => $assert.expect(err(cause), "should be valid"));
+
+    expect(error).toBeInstanceOf($assert.UnwrapError);
+    expect(error).toMatchObject({
+      _tag: "UnwrapError",
+      message: "should be valid: TypeError: invalid",
+      cause,
+    });
+  });
+
+  it("should preview the error payload", () => {
+    expect(() => $assert.expect(err("error"), "message")).toThrow(
+      'message: "error"',
+    );
+    expect(() => $assert.expect(err({ code: 42 }), "message")).toThrow(
+      'message: {"code":42}',
+    );
+  });
+
+  it("should truncate long previews", () => {
+    const error = thrown(() =>
+      $assert.expect(err("x".repeat(1000)), "message"),
+    ) as Error;
+
+    expect(error.message.length).toBeLessThan(250);
+    expect(error.message.endsWith("…")).toBe(true);
+  });
+
+  it("should work with a promise result", async () => {
+    await expect(
+      $assert.expect(Promise.resolve(ok(1)), "message"),
+    ).resolves.toBe(1);
+    await expect(
+      $assert.expect(Promise.resolve(err("error")), "message"),
+    ).rejects.toBeInstanceOf($assert.UnwrapError);
+  });
+});
+
+describe("unwrapOrThrow", () => {
+  it("should return the data of an ok", () => {
+    expect($assert.unwrapOrThrow(ok(1))).toBe(1);
+  });
+
+  it("should throw an UnwrapError with a default message", () => {
+    expect(() => $assert.unwrapOrThrow(err("error"))).toThrow(
+      'Called unwrapOrThrow on an Err: "error"',
+    );
+  });
+
+  it("should work with a promise result", async () => {
+    await expect(
+      $assert.unwrapOrThrow(Promise.resolve(err("error"))),
+    ).rejects.toMatchObject({ cause: "error" });
+  });
+});
+
+describe("assertOk", () => {
+  it("should not throw for an ok", () => {
+    expect(() => $assert.assertOk(ok(1))).not.toThrow();
+  });
+
+  it("should throw an UnwrapError for an err", () => {
+    const error = thrown(() => $assert.assertOk(err("error"), "must work"));
+
+    expect(error).toBeInstanceOf($assert.UnwrapError);
+    expect(error).toMatchObject({
+      message: 'must work: "error"',
+      cause: "error",
+    });
+  });
+});
+
+describe("assertErr", () => {
+  it("should not throw for an err", () => {
+    expect(() => $assert.assertErr(err("error"))).not.toThrow();
+  });
+
+  it("should throw an UnwrapError for an ok", () => {
+    expect(() => $assert.assertErr(ok(1))).toThrow(
+      new $assert.UnwrapError({ message: "Expected an Err: 1" }),
+    );
+  });
+});
@@ -0,0 +1,161 @@
+import { describeValue, isPromise } from "../helpers";
+import { isErr, isOk } from "./impl";
+import { defineError } from "./tagged";
+import type { Err, Ok, Result } from "./types";
+
+const PREVIEW_LENGTH = 200;
+
+/**
+ * An error thrown when a result is unwrapped into the wrong variant.
+ *
+ * When unwrapping an `Err`, the original error is kept as the `cause`.
+ *
+ * @see {@link expect}
+ * @see {@link unwrapOrThrow}
+ * @see {@link assertOk}
+ * @see {@link assertErr}
+ */
+export class UnwrapError<E = unknown> extends defineError("UnwrapError")<{
+  message: string;
+}>() {
+  declare readonly cause: E;
+}
+
+/**
+ * Render a short, readable version of a value for error messages.
+ */
+function preview(value: unknown): string {
+  const text = describeValue(value);
+
+  if (text.length > PREVIEW_LENGTH) {
+    return `${text.slice(0, PREVIEW_LENGTH)}…`;
+  }
+
+  return text;
+}
+
+function unwrapError<E>(message: string, error: E): UnwrapError<E> {
+  return new UnwrapError<E>(
+    { message: `${message}: ${preview(error)}` },
+    { cause: error },
+  );
+}
+
+/**
+ * Get the data of a result, or throw an {@link UnwrapError} with the given message.
+ *
+ * The message is followed by a preview of the error,
+ * and the original error is kept as the `cause`.
+ *
+ * Meant for app boundaries, where an `Err` is a bug and should crash loudly.
+ *
+ * @example
+ * ```ts
+ * const config = expect(loadConfig(path), "the config should be valid");
+ * // throws UnwrapError("the config should be valid: ...") if the config is invalid
+ * ```
+ * @example
+ * ```ts
+ * const user = await expect(fetchUser(id), "the user should exist");
+ * ```
+ *
+ * @see {@link unwrapOrThrow}
+ * @see {@link unwrapOr}
+ */
+export function expect<T, E>(
+  result: Promise<Result<T, E>>,
+  message: string,
+): Promise<T>;
+export function expect<T, E>(result: Result<T, E>, message: string): T;
+export function expect<T, E>(
+  result: Promise<Result<T, E>> | Result<T, E>,
+  message: string,
+): T | Promise<T> {
+  if (isPromise(result)) {
+    return result.then((x) => expect(x, message));
+  }
+
+  if (isOk(result)) {
+    return result.data;
+  }
+
+  throw unwrapError(message, result.error);
+}
+
+/**
+ * Get the data of a result, or throw an {@link UnwrapError} if it's an `Err`.
+ *
+ * Works like {@link expect} with a default message.
+ *
+ * @example
+ * ```ts
+ * const value = unwrapOrThrow(ok(1)); // 1
+ * unwrapOrThrow(err("error")); // throws UnwrapError('Called unwrapOrThrow on an Err: "error"')
+ * ```
+ *
+ * @see {@link expect}
+ * @see {@link unwrapForced}
+ */
+export function unwrapOrThrow<T, E>(result: Promise<Result<T, E>>): Promise<T>;
+export function unwrapOrThrow<T, E>(result: Result<T, E>): T;
+export function unwrapOrThrow<T, E>(
+  result: Promise<Result<T, E>> | Result<T, E>,
+): T | Promise<T> {
+  if (isPromise(result)) {
+    return result.then((x) => unwrapOrThrow(x));
+  }
+
+  return expect(result, "Called unwrapOrThrow on an Err");
+}
+
+/**
+ * Assert that a result is an `Ok`, narrowing it for the code that follows.
+ *
+ * Throws an {@link UnwrapError} with the error as the `cause` if the result is an `Err`.
+ * The default message can be replaced by passing one.
+ *
+ * @example
+ * ```ts
+ * const result = parse(input);
+ * assertOk(result);
+ * // We now know that the result is an Ok
+ * console.log(result.data);
+ * ```
+ *
+ * @see {@link assertErr}
+ * @see {@link isOk}
+ */
+export function assertOk<T, E>(
+  result: Result<T, E>,
+  message = "Expected an Ok",
+): asserts result is Ok<T> {
+  if (isErr(result)) {
+    throw unwrapError(message, result.error);
+  }
+}
+
+/**
+ * Assert that a result is an `Err`, narrowing it for the code that follows.
+ *
+ * Throws an {@link UnwrapError} with a preview of the data if the result is an `Ok`.
+ * The default message can be replaced by passing one.
+ *
+ * @example
+ * ```ts
+ * const result = parse("not a number");
+ * assertErr(result);
+ * // We now know that the result is an Err
+ * console.log(result.error);
+ * ```
+ *
+ * @see {@link assertOk}
+ * @see {@link isErr}
+ */
+export function assertErr<T, E>(
+  result: Result<T, E>,
+  message = "Expected an Err",
+): asserts result is Err<E> {
+  if (isOk(result)) {
+    throw new UnwrapError({ message: `${message}: ${preview(result.data)}` });
+  }
+}
@@ -0,0 +1,60 @@
+import { describe, expectTypeOf, it } from "vitest";
+import type { AsyncResultChain, ResultChain } from "./chain";
+import { chain } from "./chain";
+import { err, ok } from "./impl";
+import type { Result } from "./types";
+
+declare const result: Result<number, "error">;
+
+describe("chain", () => {
+  it("should stay sync for sync steps", () => {
+    const c = chain(result)
+      .map((x) => `${x}`)
+      .tryMap((x) => (x ? ok(x) : err("empty" as const)));
+
+    expectTypeOf(c).toEqualTypeOf<ResultChain<string, "error" | "empty">>();
+    expectTypeOf(c.toResult()).toEqualTypeOf<
+      Result<string, "error" | "empty">
+    >();
+  });
+
+  it("should switch to async after an async step", () => {
+    const c = chain(result)
+      .mapAsync(async (x) => x.toFixed())
+      .mapErr((e) => e.length);
+
+    expectTypeOf(c).toEqualTypeOf<AsyncResultChain<string, number>>();
+    expectTypeOf(c.toResult()).toEqualTypeOf<Promise<Result<string, number>>>();
+  });
+
+  it("should switch to async for callbacks that are not declared async", () => {
+    expectTypeOf(
+      chain(result).mapErrAsync(() => Promise.resolve(1)),
+    ).toEqualTypeOf<AsyncResultChain<number, number>>();
+  });
+
+  it("should reject promises in sync steps", () => {
+    // @ts-expect-error: promises need mapAsync
+    chain(result).map((x) => Promise.resolve(x));
+    // @ts-expect-error: promises need mapErrAsync
+    chain(result).mapErr(async (e) => e);
+    // @ts-expect-error: promises need tryMapAsync
+    chain(result).tryMap(async (x) => ok(x));
+  });
+
+  it("should keep primitive literals in fallbacks", () => {
+    expectTypeOf(chain(result).unwrapOr("fallback")).toEqualTypeOf<
+      number | "fallback"
+    >();
+  });
+
+  it("should resolve to a plain result when awaited", async () => {
+    expectTypeOf(
+      await chain(Promise.resolve(result)).map((x) => x + 1),
+    ).toEqualTypeOf<Result<number, "error">>();
+  });
+
+  it("should unwrap with a fallback", () => {
+    expectTypeOf(chain(result).unwrapOr(null)).toEqualTypeOf<number | null>();
+  });
+});
@@ -0,0 +1,206 @@
+import { describe, expect, it, vi } from "vitest";
+import { AsyncResultChain, ResultChain, chain } from "./chain";
+import * as $result from "./impl";
+
+describe("chain", () => {
+  it("should wrap a sync result into a sync chain", () => {
+    expect(chain($result.ok(1))).toBeInstanceOf(ResultChain);
+  });
+
+  it("should wrap a promise result into an async chain", () => {
+    expect(chain(Promise.resolve($result.ok(1)))).toBeInstanceOf(
+      AsyncResultChain,
+    );
+  });
+
+  it("should give back the original result", () => {
+    const result = $result.ok(Symbol("value"));
+
+    expect(chain(result).toResult()).toBe(result);
+  });
+
+  it.each([
+    [$result.ok("ok"), '{"ok":true,"data":"ok"}'],
+    [$result.err("err"), '{"ok":false,"error":"err"}'],
+  ])("should stringify like the plain result: %p", (result, expected) => {
+    expect(JSON.stringify(chain(result))).toBe(expected);
+  });
+});
+
+describe("ResultChain", () => {
+  it("should map the value", () => {
+    expect(
+      chain($result.ok(1))
+        .map((x) => x + 1)
+        .map((x) => x * 2)
+        .toResult(),
+    ).toStrictEqual($result.ok(4));
+  });
+
+  it("should map the error", () => {
+    expect(
+      chain($result.err("error"))
+        .mapErr((x) => x.toUpperCase())
+        .toResult(),
+    ).toStrictEqual($result.err("ERROR"));
+  });
+
+  it("should try map the value", () => {
+    expect(
+      chain($result.ok(1))
+        .tryMap((x) => $result.ok(x + 1))
+        .tryMap(() => $result.err("error"))
+        .map(vi.fn())
+        .toResult(),
+    ).toStrictEqual($result.err("error"));
+  });
+
+  it("should tap into the value and error", () => {
+    const fn = vi.fn();
+    const errFn = vi.fn();
+
+    chain($result.ok(1)).tap(fn).tapErr(errFn);
+    chain($result.err(2)).tap(fn).tapErr(errFn);
+
+    expect(fn).toHaveBeenCalledExactlyOnceWith(1);
+    expect(errFn).toHaveBeenCalledExactlyOnceWith(2);
+  });
+
+  it("should unwrap with a fallback", () => {
+    expect(chain($result.ok(1)).unwrapOr(0)).toBe(1);
+    expect(chain($result.err("error")).unwrapOr(0)).toBe(0);
+  });
+
+  it("should unwrap either the value or the error", () => {
+    expect(chain($result.ok(1)).unwrapEither()).toBe(1);
+    expect(chain($result.err("error")).unwrapEither()).toBe("error");
+  });
+
+  it("should catch exceptions in the callback", () => {
+    const error = new Error("error");
+
+    expect(
+      chain($result.ok(1))
+        .map(() => {
+          throw error;
+        })
+        .toResult(),
+    ).toStrictEqual($result.err(error));
+  });
+
+  it.each([
+    [
+      "mapAsync",
+      $result.ok(1),
+      (c: ResultChain<number, number>) => c.mapAsync(async (x) => x),
+    ],
+    [
+      "mapErrAsync",
+      $result.err(1),
+      (c: ResultChain<number, number>) => c.mapErrAsync(async (x) => x),
+    ],
+    [
+      "tryMapAsync",
+      $result.ok(1),
+      (c: ResultChain<number, number>) =>
+        c.tryMapAsync(async (x) => $result.ok(x)),
+    ],
+  ])("should switch to async with %s", (_, result, fn) => {
+    expect(fn(chain<number, number>(result))).toBeInstanceOf(AsyncResultChain);
+  });
+
+  it.each([
+    [
+      "mapAsync",
+      $result.err(1),
+      (c: ResultChain<number, number>) => c.mapAsync((x) => Promise.resolve(x)),
+    ],
+    [
+      "mapErrAsync",
+      $result.ok(1),
+      (c: ResultChain<number, number>) =>
+        c.mapErrAsync((x) => Promise.resolve(x)),
+    ],
+    [
+      "tryMapAsync",
+      $result.err(1),
+      (c: ResultChain<number, number>) =>
+        c.tryMapAsync((x) => Promise.resolve($result.ok(x))),
+    ],
+  ])(
+    "should switch to async when %s skips a callback that returns a promise",
+    async (_, result, fn) => {
+      const c = fn(chain<number, number>(result));
+
+      expect(c).toBeInstanceOf(AsyncResultChain);
+      await expect(c).resolves.toStrictEqual(result);
+      await expect(c.unwrapOr(0)).resolves.toBe(result.ok ? result.data : 0);
+    },
+  );
+});
+
+describe("AsyncResultChain", () => {
+  it("should be awaitable", async () => {
+    await expect(chain(Promise.resolve($result.ok(1)))).resolves.toStrictEqual(
+      $result.ok(1),
+    );
+  });
+
+  it("should map the value", async () => {
+    await expect(
+      chain($result.ok(1))
+        .mapAsync(async (x) => x + 1)
+        .map((x) => x * 2)
+        .toResult(),
+    ).resolves.toStrictEqual($result.ok(4));
+  });
+
+  it("should map the error", async () => {
+    await expect(
+      chain(Promise.resolve($result.err("error")))
+        .mapErr(async (x) => x.toUpperCase())
+        .toResult(),
+    ).resolves.toStrictEqual($result.err("ERROR"));
+  });
+
+  it("should try map the value", async () => {
+    await expect(
+      chain(Promise.resolve($result.ok(1)))
+        .tryMap(async (x) => $result.ok(x + 1))
+        .tryMap((x) => $result.ok(x * 2))
+        .toResult(),
+    ).resolves.toStrictEqual($result.ok(4));
+  });
+
+  it("should tap into the value and error", async () => {
+    const fn = vi.fn();
+    const errFn = vi.fn();
+
+    await chain(Promise.resolve($result.ok(1)))
+      .tap(fn)
+      .tapErr(errFn);
+    await chain(Promise.resolve($result.err(2)))
+      .tap(fn)
+      .tapErr(errFn);
+
+    expect(fn).toHaveBeenCalledExactlyOnceWith(1);
+    expect(errFn).toHaveBeenCalledExactlyOnceWith(2);
+  });
+
+  it("should unwrap with a fallback", async () => {
+    await expect(
+      chain(Promise.resolve($result.ok(1))).unwrapOr(0),
+    ).resolves.toBe(1);
+    await expect(
+      chain(Promise.resolve($result.err("error"))).unwrapOr(0),
+    ).resolves.toBe(0);
+  });
+
+  it("should catch promise rejections in the callback", async () => {
+    const error = new Error("error");
+
+    await expect(
+      chain($result.ok(1)).mapAsync(() => Promise.reject(error)),
+    ).resolves.toStrictEqual($result.err(error));
+  });
+});
@@ -0,0 +1,332 @@
+import { type NotPromise, type Primitive, isPromise } from "../helpers";
+import {
+  map,
+  mapErr,
+  tap,
+  tapErr,
+  tryMap,
+  unwrapEither,
+  unwrapOr,
+} from "./impl";
+import type { Result, TapFn } from "./types";
+
+/**
+ * A fluent wrapper around a synchronous `Result`.
+ *
+ * Every operator returns a new chain.
+ * The `...Async` operators switch to an {@link AsyncResultChain}, whether or not their callback runs.
+ *
+ * @example
+ * ```ts
+ * const value = chain(ok(1))
+ *   .map((x) => x + 1)
+ *   .tapErr((error) => console.error(error))
+ *   .unwrapOr(0); // 2
+ * ```
+ *
+ * @see {@link chain}
+ */
+export class ResultChain<T, E> {
+  readonly #result: Result<T, E>;
+
+  constructor(result: Result<T, E>) {
+    this.#result = result;
+  }
+
+  /**
+   * Map the data of the result.
+   *
+   * Use {@link ResultChain.mapAsync} for callbacks that return a promise.
+   *
+   * @see {@link map}
+   */
+  map<U>(fn: (data: T) => NotPromise<U>): ResultChain<U, E> {
+    return new ResultChain(map(this.#result, fn as (data: T) => U));
+  }
+
+  /**
+   * Map the data of the result with a callback that returns a promise.
+   *
+   * The chain switches to an {@link AsyncResultChain}, even if the result is an `Err`.
+   *
+   * @see {@link map}
+   */
+  mapAsync<U>(fn: (data: T) => U | Promise<U>): AsyncResultChain<U, E> {
+    return new AsyncResultChain(map(Promise.resolve(this.#result), fn));
+  }
+
+  /**
+   * Map the error of the result.
+   *
+   * Use {@link ResultChain.mapErrAsync} for callbacks that return a promise.
+   *
+   * @see {@link mapErr}
+   */
+  mapErr<U>(fn: (error: E) => NotPromise<U>): ResultChain<T, U> {
+    return new ResultChain(mapErr(this.#result, fn as (error: E) => U));
+  }
+
+  /**
+   * Map the error of the result with a callback that returns a promise.
+   *
+   * The chain switches to an {@link AsyncResultChain}, even if the result is an `Ok`.
+   *
+   * @see {@link mapErr}
+   */
+  mapErrAsync<U>(fn: (error: E) => U | Promise<U>): AsyncResultChain<T, U> {
+    return new AsyncResultChain(mapErr(Promise.resolve(this.#result), fn));
+  }
+
+  /**
+   * Map the data of the result into a new result.
+   *
+   * Use {@link ResultChain.tryMapAsync} for callbacks that return a promise.
+   *
+   * @see {@link tryMap}
+   */
+  tryMap<TT, EE>(fn: (data: T) => Result<TT, EE>): ResultChain<TT, E | EE> {
+    return new ResultChain(tryMap(this.#result, fn));
+  }
+
+  /**
+   * Map the data of the result into a new result with a callback that returns a promise.
+   *
+   * The chain switches to an {@link AsyncResultChain}, even if the result is an `Err`.
+   *
+   * @see {@link tryMap}
+   */
+  tryMapAsync<TT, EE>(
+    fn: (data: T) => Result<TT, EE> | Promise<Result<TT, EE>>,
+  ): AsyncResultChain<TT, E | EE> {
+    return new AsyncResultChain(tryMap(Promise.resolve(this.#result), fn));
+  }
+
+  /**
+   * Tap into the data of the result.
+   *
+   * @see {@link tap}
+   */
+  tap(fn: TapFn<T>): ResultChain<T, E> {
+    return new ResultChain(tap(this.#result, fn));
+  }
+
+  /**
+   * Tap into the error of the result.
+   *
+   * @see {@link tapErr}
+   */
+  tapErr(fn: TapFn<E>): ResultChain<T, E> {
+    return new ResultChain(tapErr(this.#result, fn));
+  }
+
+  /**
+   * Get the data of the result, or the provided value if the result is an `Err`.
+   *
+   * @see {@link unwrapOr}
+   */
+  unwrapOr<const U extends Primitive>(or: U): T | U;
+  unwrapOr<U>(or: U): T | U;
+  unwrapOr<U>(or: U): T | U {
+    return unwrapOr(this.#result, or);
+  }
+
+  /**
+   * Get either the data or the error of the result.
+   *
+   * @see {@link unwrapEither}
+   */
+  unwrapEither(): T | E {
+    return unwrapEither(this.#result);
+  }
+
+  /**
+   * Get the plain result back out of the chain.
+   */
+  toResult(): Result<T, E> {
+    return this.#result;
+  }
+
+  /**
+   * Serialize the chain the same way the plain result would be serialized.
+   */
+  toJSON(): Result<T, E> {
+    return this.#result;
+  }
+}
+
+/**
+ * A fluent wrapper around a `Promise<Result>`.
+ *
+ * It behaves like {@link ResultChain}, but every operator returns another {@link AsyncResultChain}.
+ *
+ * It can be awaited directly to get the plain `Result` back.
+ *
+ * @example
+ * ```ts
+ * const result: Result<number, unknown> = await chain(try$(fetch(url)))
+ *   .map((res) => res.json())
+ *   .map((json) => json.count);
+ * ```
+ *
+ * @see {@link chain}
+ */
+export class AsyncResultChain<T, E> implements PromiseLike<Result<T, E>> {
+  readonly #result: Promise<Result<T, E>>;
+
+  constructor(result: Promise<Result<T, E>>) {
+    this.#result = result;
+  }
+
+  /**
+   * Map the data of the result.
+   *
+   * @see {@link map}
+   */
+  map<U>(fn: (data: T) => U | Promise<U>): AsyncResultChain<U, E> {
+    return new AsyncResultChain(map(this.#result, fn));
+  }
+
+  /**
+   * Map the error of the result.
+   *
+   * @see {@link mapErr}
+   */
+  mapErr<U>(fn: (error: E) => U | Promise<U>): AsyncResultChain<T, U> {
+    return new AsyncResultChain(mapErr(this.#result, fn));
+  }
+
+  /**
+   * Map the data of the result into a new result.
+   *
+   * @see {@link tryMap}
+   */
+  tryMap<TT, EE>(
+    fn: (data: T) => Result<TT, EE> | Promise<Result<TT, EE>>,
+  ): AsyncResultChain<TT, E | EE> {
+    return new AsyncResultChain(tryMap(this.#result, fn));
+  }
+
+  /**
+   * Same as {@link AsyncResultChain.map}, so steps read the same on both chains.
+   */
+  mapAsync<U>(fn: (data: T) => U | Promise<U>): AsyncResultChain<U, E> {
+    return this.map(fn);
+  }
+
+  /**
+   * Same as {@link AsyncResultChain.mapErr}, so steps read the same on both chains.
+   */
+  mapErrAsync<U>(fn: (error: E) => U | Promise<U>): AsyncResultChain<T, U> {
+    return this.mapErr(fn);
+  }
+
+  /**
+   * Same as {@link AsyncResultChain.tryMap}, so steps read the same on both chains.
+   */
+  tryMapAsync<TT, EE>(
+    fn: (data: T) => Result<TT, EE> | Promise<Result<TT, EE>>,
+  ): AsyncResultChain<TT, E | EE> {
+    return this.tryMap(fn);
+  }
+
+  /**
+   * Tap into the data of the result.
+   *
+   * @see {@link tap}
+   */
+  tap(fn: TapFn<T>): AsyncResultChain<T, E> {
+    return new AsyncResultChain(tap(this.#result, fn));
+  }
+
+  /**
+   * Tap into the error of the result.
+   *
+   * @see {@link tapErr}
+   */
+  tapErr(fn: TapFn<E>): AsyncResultChain<T, E> {
+    return new AsyncResultChain(tapErr(this.#result, fn));
+  }
+
+  /**
+   * Get the data of the result, or the provided value if the result is an `Err`.
+   *
+   * @see {@link unwrapOr}
+   */
+  unwrapOr<const U extends Primitive>(or: U): Promise<T | U>;
+  unwrapOr<U>(or: U): Promise<T | U>;
+  unwrapOr<U>(or: U): Promise<T | U> {
+    return unwrapOr(this.#result, or);
+  }
+
+  /**
+   * Get either the data or the error of the result.
+   *
+   * @see {@link unwrapEither}
+   */
+  unwrapEither(): Promise<T | E> {
+    return unwrapEither(this.#result);
+  }
+
+  /**
+   * Get the plain result promise back out of the chain.
+   */
+  toResult(): Promise<Result<T, E>> {
+    return this.#result;
+  }
+
+  // biome-ignore lint/suspicious/noThenProperty: The chain is meant to be awaitable
+  then<TResult1 = Result<T, E>, TResult2 = never>(
+    onfulfilled?:
+      | ((value: Result<T, E>) => TResult1 | PromiseLike<TResult1>)
+      | null,
+    onrejected?: ((reason: unknown) => TResult2 | PromiseLike<TResult2>) | null,
+  ): Promise<TResult1 | TResult2> {
+    return this.#result.then(onfulfilled, onrejected);
+  }
+}
+
+/**
+ * Wrap a result (or a promise of a result) into a fluent chain.
+ *
+ * The chain has the same operators as the free functions, but as methods.
+ *
+ * It stays synchronous until one of the `...Async` steps is used,
+ * after which it switches to an {@link AsyncResultChain}.
+ *
+ * Use `toResult()` (or `await` for async chains) to get the plain result back.
+ *
+ * @example
+ * ```ts
+ * const result: Result<number, string> = chain(ok(1))
+ *   .map((x) => x * 2)
+ *   .tryMap((x) => (x > 1 ? ok(x) : err("too small")))
+ *   .toResult();
+ * ```
+ * @example
+ * ```ts
+ * const result: Promise<Result<number, string>> = chain(ok(1))
+ *   .mapAsync(async (x) => x * 2)
+ *   .toResult();
+ * ```
+ *
+ * @see {@link ResultChain}
+ * @see {@link AsyncResultChain}
+ */
+export function chain<T = never, E = never>(
+  result: Promise<Result<T, E>>,
+): AsyncResultChain<T, E>;
+export function chain<T = never, E = never>(
+  result: Result<T, E>,
+): ResultChain<T, E>;
+export function chain<T, E>(
+  result: Result<T, E> | Promise<Result<T, E>>,
+): ResultChain<T, E> | AsyncResultChain<T, E>;
+export function chain<T, E>(
+  result: Result<T, E> | Promise<Result<T, E>>,
+): ResultChain<T, E> | AsyncResultChain<T, E> {
+  if (isPromise(result)) {
+    return new AsyncResultChain(result);
+  }
+
+  return new ResultChain(result);
+}
@@ -0,0 +1,80 @@
+import { describe, expectTypeOf, it } from "vitest";
+import { all, filterErr, filterOk, partition, traverse } from "./collection";
+import type { Err, Ok, Result } from "./types";
+
+declare const a: Ok<1>;
+declare const b: Result<string, "b">;
+declare const c: Promise<Result<boolean, "c">>;
+
+describe("all", () => {
+  it("should keep the types of every position in a tuple", () => {
+    expectTypeOf(all([a, b])).toEqualTypeOf<Result<[1, string], "b">>();
+  });
+
+  it("should collect arrays into arrays", () => {
+    expectTypeOf(all([] as Result<number, string>[])).toEqualTypeOf<
+      Result<number[], string>
+    >();
+  });
+
+  it("should keep the types of every key in a record", () => {
+    expectTypeOf(all({ a, b })).toEqualTypeOf<
+      Result<{ a: 1; b: string }, "b">
+    >();
+  });
+
+  it("should return a promise if any of the items is a promise", () => {
+    expectTypeOf(all([a, c])).toEqualTypeOf<
+      Promise<Result<[1, boolean], "c">>
+    >();
+    expectTypeOf(all({ b, c })).toEqualTypeOf<
+      Promise<Result<{ b: string; c: boolean }, "b" | "c">>
+    >();
+  });
+});
+
+describe("partition", () => {
+  it("should split tuples into arrays", () => {
+    expectTypeOf(partition([a, b, {} as Err<"e">])).toEqualTypeOf<
+      [(1 | string)[], ("b" | "e")[]]
+    >();
+  });
+
+  it("should split records into partial records", () => {
+    expectTypeOf(partition({ a, b })).toEqualTypeOf<
+      [{ a?: 1; b?: string }, { a?: never; b?: "b" }]
+    >();
+  });
+});
+
+describe("filterOk", () => {
+  it("should give the ok values", () => {
+    expectTypeOf(filterOk([a, c])).toEqualTypeOf<Promise<(1 | boolean)[]>>();
+  });
+});
+
+describe("filterErr", () => {
+  it("should give the errors", () => {
+    expectTypeOf(filterErr([a, b])).toEqualTypeOf<"b"[]>();
+  });
+});
+
+describe("traverse", () => {
+  it("should map arrays", () => {
+    expectTypeOf(
+      traverse(
+        [1, 2],
+        (x): Result<string, "e"> => ({ ok: true, data: `${x}` }),
+      ),
+    ).toEqualTypeOf<Result<string[], "e">>();
+  });
+
+  it("should map records", () => {
+    expectTypeOf(
+      traverse(
+        { x: 1, y: 2 },
+        async (x): Promise<Result<string, "e">> => ({ ok: true, data: `${x}` }),
+      ),
+    ).toEqualTypeOf<Promise<Result<{ x: string; y: string }, "e">>>();
+  });
+});
@@ -0,0 +1,126 @@
+import { describe, expect, it, vi } from "vitest";
+import * as $result from "./collection";
+import { err, ok } from "./impl";
+
+describe("all", () => {
+  it("should collect the values of an array of oks", () => {
+    expect($result.all([ok(1), ok("two")])).toStrictEqual(ok([1, "two"]));
+  });
+
+  it("should collect the values of a record of oks", () => {
+    expect($result.all({ a: ok(1), b: ok("two") })).toStrictEqual(
+      ok({ a: 1, b: "two" }),
+    );
+  });
+
+  it("should return the first err", () => {
+    expect($result.all([ok(1), err("first"), err("second")])).toStrictEqual(
+      err("first"),
+    );
+    expect($result.all({ a: err("first"), b: err("second") })).toStrictEqual(
+      err("first"),
+    );
+  });
+
+  it("should return an empty ok for empty collections", () => {
+    expect($result.all([])).toStrictEqual(ok([]));
+    expect($result.all({})).toStrictEqual(ok({}));
+  });
+
+  it("should wait for promise results", async () => {
+    const result = $result.all([ok(1), Promise.resolve(ok(2))]);
+
+    expect(result).toBeInstanceOf(Promise);
+    await expect(result).resolves.toStrictEqual(ok([1, 2]));
+    await expect(
+      $result.all({ a: Promise.resolve(err("error")), b: ok(1) }),
+    ).resolves.toStrictEqual(err("error"));
+  });
+});
+
+describe("partition", () => {
+  it("should split an array into oks and errs", () => {
+    expect($result.partition([ok(1), err("a"), ok(2), err("b")])).toStrictEqual(
+      [
+        [1, 2],
+        ["a", "b"],
+      ],
+    );
+  });
+
+  it("should split a record into oks and errs", () => {
+    expect($result.partition({ a: ok(1), b: err("b") })).toStrictEqual([
+      { a: 1 },
+      { b: "b" },
+    ]);
+  });
+
+  it("should wait for promise results", async () => {
+    await expect(
+      $result.partition([Promise.resolve(ok(1)), err("a")]),
+    ).resolves.toStrictEqual([[1], ["a"]]);
+  });
+});
+
+describe("filterOk", () => {
+  it("should keep only the ok values", () => {
+    expect($result.filterOk([ok(1), err("a"), ok(2)])).toStrictEqual([1, 2]);
+    expect($result.filterOk({ a: ok(1), b: err("b") })).toStrictEqual({
+      a: 1,
+    });
+  });
+
+  it("should wait for promise results", async () => {
+    await expect(
+      $result.filterOk([Promise.resolve(ok(1)), err("a")]),
+    ).resolves.toStrictEqual([1]);
+  });
+});
+
+describe("filterErr", () => {
+  it("should keep only the errors", () => {
+    expect($result.filterErr([ok(1), err("a"), ok(2)])).toStrictEqual(["a"]);
+    expect($result.filterErr({ a: ok(1), b: err("b") })).toStrictEqual({
+      b: "b",
+    });
+  });
+
+  it("should wait for promise results", async () => {
+    await expect(
+      $result.filterErr([Promise.resolve(err("a")), ok(1)]),
+    ).resolves.toStrictEqual(["a"]);
+  });
+});
+
+describe("traverse", () => {
+  it("should map every item of an array", () => {
+    expect($result.traverse([1, 2, 3], (x) => ok(x * 2))).toStrictEqual(
+      ok([2, 4, 6]),
+    );
+  });
+
+  it("should map every item of a record", () => {
+    const fn = vi.fn((x: number, key: string) => ok(`${key}${x}`));
+
+    expect($result.traverse({ a: 1, b: 2 }, fn)).toStrictEqual(
+      ok({ a: "a1", b: "b2" }),
+    );
+    expect(fn).toHaveBeenCalledWith(1, "a");
+  });
+
+  it("should stop calling the callback after the first err", () => {
+    const fn = vi.fn((x: number) => (x > 1 ? err(x) : ok(x)));
+
+    expect($result.traverse([1, 2, 3], fn)).toStrictEqual(err(2));
+    expect(fn).toHaveBeenCalledTimes(2);
+  });
+
+  it("should wait for async callbacks", async () => {
+    await expect(
+      $result.traverse([1, 2], async (x) => ok(x * 2)),
+    ).resolves.toStrictEqual(ok([2, 4]));
+    await expect(
+      $result.traverse({ a: 1 }, async (x) => err(x)),
+    ).resolves.toStrictEqual(err(1));
+  });
+});
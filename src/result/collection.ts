@@ -0,0 +1,280 @@
+import { isPromise } from "../helpers";
+import { isErr, ok } from "./impl";
+import type {
+  AnyResult,
+  CollectionError,
+  CollectionErrors,
+  CollectionReturn,
+  CollectionValues,
+  MaybePromise,
+  Result,
+  ResultCollection,
+} from "./types";
+
+type ResultArray = readonly MaybePromise<AnyResult>[];
+type ResultRecord = { readonly [key: string]: MaybePromise<AnyResult> };
+type Entry = [key: string | number, result: AnyResult];
+
+/**
+ * Wait for every result in the collection (if needed) and pass the entries to the callback.
+ *
+ * The callback is called synchronously if no item in the collection is a promise.
+ */
+function settle<R>(
+  collection: ResultCollection,
+  fn: (entries: Entry[], isArray: boolean) => R,
+): R | Promise<R> {
+  const isArray = Array.isArray(collection);
+  const entries: [string | number, MaybePromise<AnyResult>][] = isArray
+    ? (collection as ResultArray).map((x, i) => [i, x])
+    : Object.entries(collection);
+
+  if (entries.some(([, x]) => isPromise(x))) {
+    return Promise.all(
+      entries.map(([key, x]) =>
+        Promise.resolve(x).then((x): Entry => [key, x]),
+      ),
+    ).then((x) => fn(x, isArray));
+  }
+
+  return fn(entries as Entry[], isArray);
+}
+
+/**
+ * Combine a collection of results into a single result.
+ *
+ * If every result is an `Ok`, the data is collected into the same shape as the input.
+ *
+ * Otherwise, the first `Err` (in input order) is returned.
+ *
+ * If any of the items is a promise, a promise is returned.
+ *
+ * @example
+ * ```ts
+ * const result = all([ok(1), ok("two")]);
+ * // result is an Ok with the value [1, "two"]
+ * ```
+ * @example
+ * ```ts
+ * const result = all({ a: ok(1), b: err("error") });
+ * // result is an Err with the error "error"
+ * ```
+ * @example
+ * ```ts
+ * const result = await all([ok(1), Promise.resolve(ok(2))]);
+ * // result is an Ok with the value [1, 2]
+ * ```
+ *
+ * @see {@link partition}
+ * @see {@link traverse}
+ */
+export function all<const C extends ResultArray>(
+  results: C,
+): CollectionReturn<C, Result<CollectionValues<C>, CollectionError<C>>>;
+export function all<const C extends ResultRecord>(
+  results: C,
+): CollectionReturn<C, Result<CollectionValues<C>, CollectionError<C>>>;
+export function all(
+  results: ResultCollection,
+): MaybePromise<Result<unknown, unknown>> {
+  return settle(results, (entries, isArray) => {
+    const data = (isArray ? [] : {}) as Record<string | number, unknown>;
+
+    for (const [key, result] of entries) {
+      if (!result.ok) {
+        return result;
+      }
+
+      data[key] = result.data;
+    }
+
+    return ok(data);
+  });
+}
+
+/**
+ * Split a collection of results into the data of the `Ok`s and the errors of the `Err`s.
+ *
+ * Arrays and tuples are split into two arrays.
+ * Records are split into two records, each containing only the keys of the matching results.
+ *
+ * If any of the items is a promise, a promise is returned.
+ *
+ * @example
+ * ```ts
+ * const [oks, errs] = partition([ok(1), err("error"), ok(2)]);
+ * // oks is [1, 2]
+ * // errs is ["error"]
+ * ```
+ * @example
+ * ```ts
+ * const [oks, errs] = partition({ a: ok(1), b: err("error") });
+ * // oks is { a: 1 }
+ * // errs is { b: "error" }
+ * ```
+ *
+ * @see {@link all}
+ * @see {@link filterOk}
+ * @see {@link filterErr}
+ */
+export function partition<const C extends ResultArray>(
+  results: C,
+): CollectionReturn<C, [CollectionValues<C>[number][], CollectionError<C>[]]>;
+export function partition<const C extends ResultRecord>(
+  results: C,
+): CollectionReturn<
+  C,
+  [Partial<CollectionValues<C>>, Partial<CollectionErrors<C>>]
+>;
+export function partition(
+  results: ResultCollection,
+): MaybePromise<[unknown, unknown]> {
+  return settle(results, (entries, isArray) => {
+    if (isArray) {
+      return [
+        entries.flatMap(([, x]) => (x.ok ? [x.data] : [])),
+        entries.flatMap(([, x]) => (isErr(x) ? [x.error] : [])),
+      ];
+    }
+
+    return [
+      Object.fromEntries(
+        entries.flatMap(([k, x]) => (x.ok ? [[k, x.data]] : [])),
+      ),
+      Object.fromEntries(
+        entries.flatMap(([k, x]) => (isErr(x) ? [[k, x.error]] : [])),
+      ),
+    ];
+  });
+}
+
+/**
+ * Get the data of every `Ok` in a collection of results.
+ *
+ * @example
+ * ```ts
+ * const oks = filterOk([ok(1), err("error"), ok(2)]);
+ * // oks is [1, 2]
+ * ```
+ *
+ * @see {@link partition}
+ * @see {@link filterErr}
+ */
+export function filterOk<const C extends ResultArray>(
+  results: C,
+): CollectionReturn<C, CollectionValues<C>[number][]>;
+export function filterOk<const C extends ResultRecord>(
+  results: C,
+): CollectionReturn<C, Partial<CollectionValues<C>>>;
+export function filterOk(results: ResultCollection): MaybePromise<unknown> {
+  const res = partition(results as ResultArray) as MaybePromise<
+    [unknown, unknown]
+  >;
+
+  if (isPromise(res)) {
+    return res.then(([oks]) => oks);
+  }
+
+  return res[0];
+}
+
+/**
+ * Get the error of every `Err` in a collection of results.
+ *
+ * @example
+ * ```ts
+ * const errs = filterErr([ok(1), err("error"), ok(2)]);
+ * // errs is ["error"]
+ * ```
+ *
+ * @see {@link partition}
+ * @see {@link filterOk}
+ */
+export function filterErr<const C extends ResultArray>(
+  results: C,
+): CollectionReturn<C, CollectionError<C>[]>;
+export function filterErr<const C extends ResultRecord>(
+  results: C,
+): CollectionReturn<C, Partial<CollectionErrors<C>>>;
+export function filterErr(results: ResultCollection): MaybePromise<unknown> {
+  const res = partition(results as ResultArray) as MaybePromise<
+    [unknown, unknown]
+  >;
+
+  if (isPromise(res)) {
+    return res.then(([, errs]) => errs);
+  }
+
+  return res[1];
+}
+
+/**
+ * Map every item of a collection into a result and combine them with {@link all}.
+ *
+ * For synchronous callbacks, the callback stops being called after the first `Err`.
+ *
+ * If the callback returns a promise, a promise is returned.
+ *
+ * @example
+ * ```ts
+ * const result = traverse(["1", "2"], (x) => try$(() => BigInt(x)));
+ * // result is an Ok with the value [1n, 2n]
+ * ```
+ * @example
+ * ```ts
+ * const result = traverse({ a: "1", b: "nope" }, (x) =>
+ *   Number.isNaN(Number(x)) ? err("not a number") : ok(Number(x)),
+ * );
+ * // result is an Err with the error "not a number"
+ * ```
+ *
+ * @see {@link all}
+ */
+export function traverse<
+  C extends readonly unknown[],
+  R extends MaybePromise<AnyResult>,
+>(
+  items: C,
+  fn: (item: C[number], index: number) => R,
+): CollectionReturn<
+  { [K in keyof C]: R },
+  Result<CollectionValues<{ [K in keyof C]: R }>, CollectionError<R[]>>
+>;
+export function traverse<
+  C extends { readonly [key: string]: unknown },
+  R extends MaybePromise<AnyResult>,
+>(
+  items: C,
+  fn: (item: C[keyof C], key: keyof C & string) => R,
+): CollectionReturn<
+  { [K in keyof C]: R },
+  Result<CollectionValues<{ [K in keyof C]: R }>, CollectionError<R[]>>
+>;
+export function traverse(
+  items: readonly unknown[] | { readonly [key: string]: unknown },
+  fn: (item: unknown, key: never) => MaybePromise<AnyResult>,
+): MaybePromise<Result<unknown, unknown>> {
+  const isArray = Array.isArray(items);
+  const entries = isArray
+    ? (items as readonly unknown[]).map((x, i) => [i, x] as const)
+    : Object.entries(items);
+  const results = (isArray ? [] : {}) as Record<
+    string | number,
+    MaybePromise<AnyResult>
+  >;
+  let isAsync = false;
+
+  for (const [key, item] of entries) {
+    const result = fn(item, key as never);
+
+    if (isPromise(result)) {
+      isAsync = true;
+    } else if (!isAsync && !result.ok) {
+      return result;
+    }
+
+    results[key] = result;
+  }
+
+  return all(results as ResultRecord);
+}
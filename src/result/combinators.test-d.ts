@@ -0,0 +1,136 @@
+import { describe, expectTypeOf, it } from "vitest";
+import type { Option } from "../option/types";
+import {
+  and,
+  ensure,
+  flatten,
+  isErrAnd,
+  isOkAnd,
+  or,
+  swap,
+  transpose,
+  transposeOption,
+} from "./combinators";
+import type { Err, Ok, Result } from "./types";
+
+declare const result: Result<number, "not found">;
+declare const other: Result<string, "invalid">;
+
+describe("and", () => {
+  it("should use the data of the other result", () => {
+    expectTypeOf(and(result, other)).toEqualTypeOf<
+      Result<string, "not found" | "invalid">
+    >();
+    expectTypeOf(and(Promise.resolve(result), other)).toEqualTypeOf<
+      Promise<Result<string, "not found" | "invalid">>
+    >();
+  });
+});
+
+describe("or", () => {
+  it("should use the error of the other result", () => {
+    expectTypeOf(or(result, other)).toEqualTypeOf<
+      Result<number | string, "invalid">
+    >();
+    expectTypeOf(or(result, Promise.resolve(other))).toEqualTypeOf<
+      Promise<Result<number | string, "invalid">>
+    >();
+  });
+});
+
+describe("flatten", () => {
+  it("should union the errors", () => {
+    expectTypeOf(
+      flatten(result as Result<Result<string, "invalid">, "not found">),
+    ).toEqualTypeOf<Result<string, "invalid" | "not found">>();
+  });
+});
+
+describe("transpose", () => {
+  it("should turn a result of a promise into a promise of a result", () => {
+    expectTypeOf(
+      transpose(result as Result<Promise<number>, "not found">),
+    ).toEqualTypeOf<Promise<Result<number, "not found">>>();
+  });
+});
+
+describe("transposeOption", () => {
+  it("should remove undefined from the data", () => {
+    expectTypeOf(
+      transposeOption(result as Result<number | undefined, "not found">),
+    ).toEqualTypeOf<Option<Result<number, "not found">>>();
+  });
+});
+
+describe("isOkAnd", () => {
+  it("should narrow only the true branch", () => {
+    if (isOkAnd(result, (x) => x > 0)) {
+      expectTypeOf(result.data).toEqualTypeOf<number>();
+    } else {
+      expectTypeOf(result).toEqualTypeOf<Result<number, "not found">>();
+    }
+  });
+
+  it("should narrow to the guarded type", () => {
+    const value = result as Result<string | number, "not found">;
+
+    if (isOkAnd(value, (x) => typeof x === "string")) {
+      expectTypeOf(value).toEqualTypeOf<Ok<string>>();
+    }
+  });
+
+  it("should be a promise of a boolean for promise results", () => {
+    expectTypeOf(isOkAnd(Promise.resolve(result), (x) => x > 0)).toEqualTypeOf<
+      Promise<boolean>
+    >();
+  });
+});
+
+describe("isErrAnd", () => {
+  it("should narrow only the true branch", () => {
+    if (isErrAnd(result, (x) => x === "not found")) {
+      expectTypeOf(result.error).toEqualTypeOf<"not found">();
+    } else {
+      expectTypeOf(result).toEqualTypeOf<Result<number, "not found">>();
+    }
+  });
+
+  it("should narrow to the guarded type", () => {
+    const value = result as Result<number, "not found" | Error>;
+
+    if (isErrAnd(value, (x) => x instanceof Error)) {
+      expectTypeOf(value).toEqualTypeOf<Err<Error>>();
+    }
+  });
+});
+
+describe("ensure", () => {
+  it("should add the error type", () => {
+    expectTypeOf(
+      ensure(
+        result,
+        (x) => x > 0,
+        () => "negative",
+      ),
+    ).toEqualTypeOf<Result<number, "not found" | "negative">>();
+  });
+
+  it("should narrow the data with a type guard", () => {
+    expectTypeOf(
+      ensure(
+        Promise.resolve(result as Result<unknown, "not found">),
+        (x) => typeof x === "string",
+        () => new TypeError(),
+      ),
+    ).toEqualTypeOf<Promise<Result<string, "not found" | TypeError>>>();
+  });
+});
+
+describe("swap", () => {
+  it("should swap the types", () => {
+    expectTypeOf(swap(result)).toEqualTypeOf<Result<"not found", number>>();
+    expectTypeOf(swap(Promise.resolve(result))).toEqualTypeOf<
+      Promise<Result<"not found", number>>
+    >();
+  });
+});
@@ -0,0 +1,227 @@
+import { describe, expect, it, vi } from "vitest";
+import { none, some } from "../option/impl";
+import {
+  and,
+  ensure,
+  flatten,
+  isErrAnd,
+  isOkAnd,
+  or,
+  swap,
+  transpose,
+  transposeOption,
+} from "./combinators";
+import { err, ok } from "./impl";
+
+describe("and", () => {
+  it("should return the other result if the result is an ok", () => {
+    const other = err("other");
+
+    expect(and(ok(1), other)).toBe(other);
+  });
+
+  it("should return the err if the result is an err", () => {
+    const result = err("error");
+
+    expect(and(result, ok(2))).toBe(result);
+  });
+
+  it("should work with promises", async () => {
+    await expect(and(Promise.resolve(ok(1)), ok(2))).resolves.toStrictEqual(
+      ok(2),
+    );
+    await expect(
+      and(err("error"), Promise.resolve(ok(2))),
+    ).resolves.toStrictEqual(err("error"));
+  });
+
+  it("should ignore a rejecting other result if the result is an err", async () => {
+    const rejected = Promise.reject(new Error("ignored"));
+
+    await expect(and(err("error"), rejected)).resolves.toStrictEqual(
+      err("error"),
+    );
+    await expect(
+      and(Promise.resolve(err("error")), rejected),
+    ).resolves.toStrictEqual(err("error"));
+  });
+});
+
+describe("or", () => {
+  it("should return the result if it is an ok", () => {
+    const result = ok(1);
+
+    expect(or(result, ok(2))).toBe(result);
+  });
+
+  it("should return the other result if the result is an err", () => {
+    const other = ok(2);
+
+    expect(or(err("error"), other)).toBe(other);
+  });
+
+  it("should work with promises", async () => {
+    await expect(
+      or(Promise.resolve(err("error")), ok(2)),
+    ).resolves.toStrictEqual(ok(2));
+    await expect(or(ok(1), Promise.resolve(ok(2)))).resolves.toStrictEqual(
+      ok(1),
+    );
+  });
+
+  it("should ignore a rejecting other result if the result is an ok", async () => {
+    const rejected = Promise.reject(new Error("ignored"));
+
+    await expect(or(ok(1), rejected)).resolves.toStrictEqual(ok(1));
+    await expect(or(Promise.resolve(ok(1)), rejected)).resolves.toStrictEqual(
+      ok(1),
+    );
+  });
+});
+
+describe("flatten", () => {
+  it("should return the inner result of an ok", () => {
+    expect(flatten(ok(ok(1)))).toStrictEqual(ok(1));
+    expect(flatten(ok(err("inner")))).toStrictEqual(err("inner"));
+  });
+
+  it("should return the outer err", () => {
+    const result = err("outer");
+
+    expect(flatten(result)).toBe(result);
+  });
+
+  it("should work with a promise result", async () => {
+    await expect(flatten(Promise.resolve(ok(ok(1))))).resolves.toStrictEqual(
+      ok(1),
+    );
+  });
+});
+
+describe("transpose", () => {
+  it("should await the data of an ok", async () => {
+    await expect(transpose(ok(Promise.resolve(1)))).resolves.toStrictEqual(
+      ok(1),
+    );
+  });
+
+  it("should resolve to the err", async () => {
+    const result = err("error");
+
+    await expect(transpose(result)).resolves.toBe(result);
+  });
+
+  it("should work with a promise result", async () => {
+    await expect(
+      transpose(Promise.resolve(ok(Promise.resolve(1)))),
+    ).resolves.toStrictEqual(ok(1));
+  });
+
+  it("should not catch rejections of the data", async () => {
+    const error = new Error("rejected");
+
+    await expect(transpose(ok(Promise.reject(error)))).rejects.toBe(error);
+  });
+});
+
+describe("transposeOption", () => {
+  it("should turn an ok of undefined into a none", () => {
+    expect(transposeOption(ok(undefined))).toStrictEqual(none());
+  });
+
+  it("should wrap other results in a some", () => {
+    expect(transposeOption(ok(1))).toStrictEqual(some(ok(1)));
+    expect(transposeOption(ok(null))).toStrictEqual(some(ok(null)));
+    expect(transposeOption(err(undefined))).toStrictEqual(some(err(undefined)));
+  });
+
+  it("should work with a promise result", async () => {
+    await expect(
+      transposeOption(Promise.resolve(ok(undefined))),
+    ).resolves.toStrictEqual(none());
+  });
+});
+
+describe("isOkAnd", () => {
+  it("should check the data of an ok", () => {
+    expect(isOkAnd(ok(1), (x) => x > 0)).toBe(true);
+    expect(isOkAnd(ok(-1), (x) => x > 0)).toBe(false);
+  });
+
+  it("should not call the predicate on an err", () => {
+    const predicate = vi.fn();
+
+    expect(isOkAnd(err("error"), predicate)).toBe(false);
+    expect(predicate).not.toHaveBeenCalled();
+  });
+
+  it("should work with a promise result", async () => {
+    await expect(isOkAnd(Promise.resolve(ok(1)), (x) => x > 0)).resolves.toBe(
+      true,
+    );
+  });
+});
+
+describe("isErrAnd", () => {
+  it("should check the error of an err", () => {
+    expect(isErrAnd(err("error"), (x) => x === "error")).toBe(true);
+    expect(isErrAnd(err<string>("other"), (x) => x === "error")).toBe(false);
+  });
+
+  it("should not call the predicate on an ok", () => {
+    const predicate = vi.fn();
+
+    expect(isErrAnd(ok(1), predicate)).toBe(false);
+    expect(predicate).not.toHaveBeenCalled();
+  });
+
+  it("should work with a promise result", async () => {
+    await expect(
+      isErrAnd(Promise.resolve(err("error")), (x) => x === "error"),
+    ).resolves.toBe(true);
+  });
+});
+
+describe("ensure", () => {
+  it("should keep an ok matching the predicate", () => {
+    const result = ok(1);
+
+    expect(ensure(result, (x) => x > 0, vi.fn())).toBe(result);
+  });
+
+  it("should turn an ok not matching the predicate into an err", () => {
+    const error = vi.fn().mockReturnValue("negative");
+
+    expect(ensure(ok(-1), (x) => x > 0, error)).toStrictEqual(err("negative"));
+    expect(error).toHaveBeenCalledWith(-1);
+  });
+
+  it("should not call the predicate on an err", () => {
+    const result = err("error");
+    const predicate = vi.fn();
+
+    expect(ensure(result, predicate, vi.fn())).toBe(result);
+    expect(predicate).not.toHaveBeenCalled();
+  });
+
+  it("should work with a promise result", async () => {
+    await expect(
+      ensure(
+        Promise.resolve(ok(-1)),
+        (x) => x > 0,
+        () => "negative",
+      ),
+    ).resolves.toStrictEqual(err("negative"));
+  });
+});
+
+describe("swap", () => {
+  it("should swap the variants", () => {
+    expect(swap(ok(1))).toStrictEqual(err(1));
+    expect(swap(err("error"))).toStrictEqual(ok("error"));
+  });
+
+  it("should work with a promise result", async () => {
+    await expect(swap(Promise.resolve(ok(1)))).resolves.toStrictEqual(err(1));
+  });
+});
@@ -0,0 +1,437 @@
+import { type Primitive, isPromise } from "../helpers";
+import { none, some } from "../option/impl";
+import type { Option } from "../option/types";
+import { err, isErr, isOk, ok, unwrapErr } from "./impl";
+import type { Checked, Err, Ok, Result } from "./types";
+
+/**
+ * Mark an ignored promise as handled, so a rejection doesn't become an unhandled one.
+ */
+function ignore(value: unknown): void {
+  if (isPromise(value)) {
+    value.catch(() => undefined);
+  }
+}
+
+/**
+ * Return the other result if the result is an `Ok`.
+ *
+ * If the result is an `Err`, it is returned as is, and the other result is ignored,
+ * even if it is a promise that rejects.
+ *
+ * @example
+ * ```ts
+ * const result = and(ok(1), ok("two"));
+ * // result is an Ok with the value "two"
+ * ```
+ * @example
+ * ```ts
+ * const result = and(err("error"), ok("two"));
+ * // result is an Err with the error "error"
+ * ```
+ *
+ * @see {@link or}
+ * @see {@link tryMap}
+ */
+export function and<T, E, TT = never, EE = never>(
+  result: Promise<Result<T, E>>,
+  other: Promise<Result<TT, EE>> | Result<TT, EE>,
+): Promise<Result<TT, E | EE>>;
+export function and<T, E, TT = never, EE = never>(
+  result: Result<T, E>,
+  other: Promise<Result<TT, EE>>,
+): Promise<Result<TT, E | EE>>;
+export function and<T, E, TT = never, EE = never>(
+  result: Result<T, E>,
+  other: Result<TT, EE>,
+): Result<TT, E | EE>;
+export function and<T, E, TT, EE>(
+  result: Promise<Result<T, E>> | Result<T, E>,
+  other: Promise<Result<TT, EE>> | Result<TT, EE>,
+): Result<TT, E | EE> | Promise<Result<TT, E | EE>> {
+  if (isPromise(result)) {
+    return result.then((x) => {
+      if (x.ok) {
+        return other;
+      }
+
+      ignore(other);
+      return x;
+    });
+  }
+
+  if (result.ok) {
+    return other;
+  }
+
+  ignore(other);
+  return isPromise(other) ? Promise.resolve(result) : result;
+}
+
+/**
+ * Return the other result if the result is an `Err`.
+ *
+ * If the result is an `Ok`, it is returned as is, and the other result is ignored,
+ * even if it is a promise that rejects.
+ *
+ * @example
+ * ```ts
+ * const result = or(err("error"), ok(2));
+ * // result is an Ok with the value 2
+ * ```
+ * @example
+ * ```ts
+ * const result = or(ok(1), ok(2));
+ * // result is an Ok with the value 1
+ * ```
+ *
+ * @see {@link and}
+ * @see {@link orElse}
+ */
+export function or<T, E, TT = never, EE = never>(
+  result: Promise<Result<T, E>>,
+  other: Promise<Result<TT, EE>> | Result<TT, EE>,
+): Promise<Result<T | TT, EE>>;
+export function or<T, E, TT = never, EE = never>(
+  result: Result<T, E>,
+  other: Promise<Result<TT, EE>>,
+): Promise<Result<T | TT, EE>>;
+export function or<T, E, TT = never, EE = never>(
+  result: Result<T, E>,
+  other: Result<TT, EE>,
+): Result<T | TT, EE>;
+export function or<T, E, TT, EE>(
+  result: Promise<Result<T, E>> | Result<T, E>,
+  other: Promise<Result<TT, EE>> | Result<TT, EE>,
+): Result<T | TT, EE> | Promise<Result<T | TT, EE>> {
+  if (isPromise(result)) {
+    return result.then((x) => {
+      if (isOk(x)) {
+        ignore(other);
+        return x;
+      }
+
+      return other;
+    });
+  }
+
+  if (isOk(result)) {
+    ignore(other);
+    return isPromise(other) ? Promise.resolve(result) : result;
+  }
+
+  return other;
+}
+
+/**
+ * Flatten a result of a result into a single result.
+ *
+ * The error type is the union of the inner and the outer error.
+ *
+ * @example
+ * ```ts
+ * const result = flatten(ok(ok(1)));
+ * // result is an Ok with the value 1
+ * ```
+ * @example
+ * ```ts
+ * const result = flatten(ok(err("inner")));
+ * // result is an Err with the error "inner"
+ * ```
+ *
+ * @see {@link tryMap}
+ */
+export function flatten<T, E, EE>(
+  result: Promise<Result<Result<T, E>, EE>>,
+): Promise<Result<T, E | EE>>;
+export function flatten<T, E, EE>(
+  result: Result<Result<T, E>, EE>,
+): Result<T, E | EE>;
+export function flatten<T, E, EE>(
+  result: Promise<Result<Result<T, E>, EE>> | Result<Result<T, E>, EE>,
+): Result<T, E | EE> | Promise<Result<T, E | EE>> {
+  if (isPromise(result)) {
+    return result.then((x) => flatten(x));
+  }
+
+  if (result.ok) {
+    return result.data;
+  }
+
+  return result;
+}
+
+/**
+ * Turn a result of a promise into a promise of a result.
+ *
+ * If the result is an `Ok`, the promise it contains is awaited, and its value is wrapped in an `Ok`.
+ * Rejections of the promise are not caught.
+ *
+ * If the result is an `Err`, a promise of the same `Err` is returned.
+ *
+ * @example
+ * ```ts
+ * const result = await transpose(ok(fetchUser(id)));
+ * // result is an Ok with the user
+ * ```
+ *
+ * @see {@link transposeOption}
+ */
+export function transpose<T, E>(
+  result: Promise<Result<Promise<T>, E>> | Result<Promise<T>, E>,
+): Promise<Result<T, E>>;
+export function transpose<T, E>(
+  result: Promise<Result<Promise<T>, E>> | Result<Promise<T>, E>,
+): Promise<Result<T, E>> {
+  return Promise.resolve(result).then((x) => {
+    if (x.ok) {
+      return x.data.then((data) => ok(data));
+    }
+
+    return x;
+  });
+}
+
+/**
+ * Turn a result of a value that may be `undefined` into an option of a result.
+ *
+ * An `Ok` of `undefined` becomes a `None`.
+ * Any other result is wrapped in a `Some`.
+ *
+ * An `Err` does not tell whether it was meant to hold a promise or an optional value,
+ * so this is a separate function from {@link transpose}.
+ *
+ * @example
+ * ```ts
+ * const option = transposeOption(ok(users.get(id)));
+ * // option is a Some of an Ok if the user exists, and a None otherwise
+ * ```
+ * @example
+ * ```ts
+ * const option = transposeOption(err("error"));
+ * // option is a Some of an Err with the error "error"
+ * ```
+ *
+ * @see {@link transpose}
+ */
+export function transposeOption<T, E>(
+  result: Promise<Result<T, E>>,
+): Promise<Option<Result<Exclude<T, undefined>, E>>>;
+export function transposeOption<T, E>(
+  result: Result<T, E>,
+): Option<Result<Exclude<T, undefined>, E>>;
+export function transposeOption<T, E>(
+  result: Promise<Result<T, E>> | Result<T, E>,
+):
+  | Option<Result<Exclude<T, undefined>, E>>
+  | Promise<Option<Result<Exclude<T, undefined>, E>>> {
+  if (isPromise(result)) {
+    return result.then((x) => transposeOption(x));
+  }
+
+  if (result.ok && result.data === undefined) {
+    return none();
+  }
+
+  return some(result as Result<Exclude<T, undefined>, E>);
+}
+
+/**
+ * Check if a result is an `Ok` whose data matches the predicate.
+ *
+ * If the predicate is a type guard, the result is narrowed to an `Ok` of the guarded type.
+ * Otherwise, the result is only narrowed when the check passes.
+ *
+ * On a promise of a result, a promise of the boolean is returned.
+ *
+ * @example
+ * ```ts
+ * if (isOkAnd(result, (data) => data > 0)) {
+ *   // We now know that the result is an Ok
+ *   console.log(result.data);
+ * }
+ * ```
+ *
+ * @see {@link isErrAnd}
+ * @see {@link isOk}
+ */
+export function isOkAnd<T, E>(
+  result: Promise<Result<T, E>>,
+  predicate: (data: T) => boolean,
+): Promise<boolean>;
+export function isOkAnd<T, E, U extends T>(
+  result: Result<T, E>,
+  predicate: (data: T) => data is U,
+): result is Ok<U>;
+export function isOkAnd<T, E>(
+  result: Result<T, E>,
+  predicate: (data: T) => boolean,
+): result is Ok<T> & Checked;
+export function isOkAnd<T, E>(
+  result: Promise<Result<T, E>> | Result<T, E>,
+  predicate: (data: T) => boolean,
+): boolean | Promise<boolean> {
+  if (isPromise(result)) {
+    return result.then((x) => isOkAnd(x, predicate));
+  }
+
+  return isOk(result) && predicate(result.data);
+}
+
+/**
+ * Check if a result is an `Err` whose error matches the predicate.
+ *
+ * If the predicate is a type guard, the result is narrowed to an `Err` of the guarded type.
+ * Otherwise, the result is only narrowed when the check passes.
+ *
+ * On a promise of a result, a promise of the boolean is returned.
+ *
+ * @example
+ * ```ts
+ * if (isErrAnd(result, (error) => error instanceof NotFoundError)) {
+ *   // We now know that the result is an Err of a NotFoundError
+ *   console.log(result.error.message);
+ * }
+ * ```
+ *
+ * @see {@link isOkAnd}
+ * @see {@link isErr}
+ */
+export function isErrAnd<T, E>(
+  result: Promise<Result<T, E>>,
+  predicate: (error: E) => boolean,
+): Promise<boolean>;
+export function isErrAnd<T, E, U extends E>(
+  result: Result<T, E>,
+  predicate: (error: E) => error is U,
+): result is Err<U>;
+export function isErrAnd<T, E>(
+  result: Result<T, E>,
+  predicate: (error: E) => boolean,
+): result is Err<E> & Checked;
+export function isErrAnd<T, E>(
+  result: Promise<Result<T, E>> | Result<T, E>,
+  predicate: (error: E) => boolean,
+): boolean | Promise<boolean> {
+  if (isPromise(result)) {
+    return result.then((x) => isErrAnd(x, predicate));
+  }
+
+  return isErr(result) && predicate(result.error);
+}
+
+/**
+ * Turn an `Ok` into an `Err` if its data does not match the predicate.
+ *
+ * The error factory is called with the data to create the error.
+ *
+ * If the predicate is a type guard, the data is narrowed to the guarded type.
+ *
+ * An `Err` is returned as is, without calling the predicate.
+ *
+ * @example
+ * ```ts
+ * const result = ensure(ok(-1), (x) => x >= 0, () => "negative");
+ * // result is an Err with the error "negative"
+ * ```
+ * @example
+ * ```ts
+ * const result = ensure(
+ *   parseJson(input), // Result<unknown, SyntaxError>
+ *   (json): json is string => typeof json === "string",
+ *   (json) => new TypeError(`Expected a string, got ${typeof json}`),
+ * );
+ * // result is a Result<string, SyntaxError | TypeError>
+ * ```
+ *
+ * @see {@link isOkAnd}
+ */
+export function ensure<T, E, U extends T, const EE extends Primitive>(
+  result: Promise<Result<T, E>>,
+  predicate: (data: T) => data is U,
+  error: (data: T) => EE,
+): Promise<Result<U, E | EE>>;
+export function ensure<T, E, U extends T, EE>(
+  result: Promise<Result<T, E>>,
+  predicate: (data: T) => data is U,
+  error: (data: T) => EE,
+): Promise<Result<U, E | EE>>;
+export function ensure<T, E, U extends T, const EE extends Primitive>(
+  result: Result<T, E>,
+  predicate: (data: T) => data is U,
+  error: (data: T) => EE,
+): Result<U, E | EE>;
+export function ensure<T, E, U extends T, EE>(
+  result: Result<T, E>,
+  predicate: (data: T) => data is U,
+  error: (data: T) => EE,
+): Result<U, E | EE>;
+export function ensure<T, E, const EE extends Primitive>(
+  result: Promise<Result<T, E>>,
+  predicate: (data: T) => boolean,
+  error: (data: T) => EE,
+): Promise<Result<T, E | EE>>;
+export function ensure<T, E, EE>(
+  result: Promise<Result<T, E>>,
+  predicate: (data: T) => boolean,
+  error: (data: T) => EE,
+): Promise<Result<T, E | EE>>;
+export function ensure<T, E, const EE extends Primitive>(
+  result: Result<T, E>,
+  predicate: (data: T) => boolean,
+  error: (data: T) => EE,
+): Result<T, E | EE>;
+export function ensure<T, E, EE>(
+  result: Result<T, E>,
+  predicate: (data: T) => boolean,
+  error: (data: T) => EE,
+): Result<T, E | EE>;
+export function ensure<T, E, EE>(
+  result: Promise<Result<T, E>> | Result<T, E>,
+  predicate: (data: T) => boolean,
+  error: (data: T) => EE,
+): Result<T, E | EE> | Promise<Result<T, E | EE>> {
+  if (isPromise(result)) {
+    return result.then((x) => ensure(x, predicate, error));
+  }
+
+  if (!result.ok || predicate(result.data)) {
+    return result;
+  }
+
+  return err(error(result.data));
+}
+
+/**
+ * Swap the variants of a result.
+ *
+ * An `Ok` becomes an `Err` with the same value, and an `Err` becomes an `Ok` with the same error.
+ *
+ * @example
+ * ```ts
+ * const result = swap(ok(1));
+ * // result is an Err with the error 1
+ * ```
+ * @example
+ * ```ts
+ * const result = swap(err("error"));
+ * // result is an Ok with the value "error"
+ * ```
+ */
+export function swap<T, E>(
+  result: Promise<Result<T, E>>,
+): Promise<Result<E, T>>;
+export function swap<T, E>(result: Result<T, E>): Result<E, T>;
+export function swap<T, E>(
+  result: Promise<Result<T, E>> | Result<T, E>,
+): Result<E, T> | Promise<Result<E, T>> {
+  if (isPromise(result)) {
+    return result.then((x) => swap(x));
+  }
+
+  if (result.ok) {
+    return err(result.data);
+  }
+
+  return ok(unwrapErr(result));
+}
@@ -0,0 +1,32 @@
+import { describe, expectTypeOf, it } from "vitest";
+import { type ContextError, context, withContext } from "./context";
+import type { Result } from "./types";
+
+declare const result: Result<number, "not found">;
+
+describe("context", () => {
+  it("should keep the cause type", () => {
+    expectTypeOf(context(result, "context")).toEqualTypeOf<
+      Result<number, ContextError<"not found">>
+    >();
+    expectTypeOf(context(Promise.resolve(result), "context")).toEqualTypeOf<
+      Promise<Result<number, ContextError<"not found">>>
+    >();
+  });
+});
+
+describe("withContext", () => {
+  it("should pass the error to the message function", () => {
+    withContext(result, (error) => {
+      expectTypeOf(error).toEqualTypeOf<"not found">();
+
+      return "context";
+    });
+  });
+
+  it("should keep the cause type", () => {
+    expectTypeOf(
+      withContext(Promise.resolve(result), () => "context"),
+    ).toEqualTypeOf<Promise<Result<number, ContextError<"not found">>>>();
+  });
+});
@@ -0,0 +1,156 @@
+import { describe, expect, it, vi } from "vitest";
+import {
+  ContextError,
+  context,
+  formatErrorChain,
+  withContext,
+} from "./context";
+import { err, ok, unwrapErr } from "./impl";
+import type { Err, Result } from "./types";
+
+describe("context", () => {
+  it("should keep an ok as it is", () => {
+    const result = ok(1);
+
+    expect(context(result, "context")).toBe(result);
+  });
+
+  it("should wrap the error of an err", () => {
+    const cause = new Error("cause");
+    const error = unwrapErr(
+      context(err(cause), "while loading") as Err<ContextError<Error>>,
+    );
+
+    expect(error).toBeInstanceOf(ContextError);
+    expect(error._tag).toBe("ContextError");
+    expect(error.name).toBe("ContextError");
+    expect(error.message).toBe("while loading");
+    expect(error.cause).toBe(cause);
+  });
+
+  it("should work with promises", async () => {
+    await expect(context(Promise.resolve(ok(1)), "context")).resolves.toEqual(
+      ok(1),
+    );
+
+    const result = await context(Promise.resolve(err("cause")), "context");
+
+    expect(unwrapErr(result as Err<ContextError<string>>).cause).toBe("cause");
+  });
+});
+
+describe("withContext", () => {
+  it("should not create the message for an ok", () => {
+    const fn = vi.fn(() => "context");
+
+    expect(withContext(ok(1), fn)).toEqual(ok(1));
+    expect(fn).not.toHaveBeenCalled();
+  });
+
+  it("should create the message from the error", () => {
+    const result = withContext(
+      err(404) as Result<never, number>,
+      (status) => `status ${status}`,
+    );
+    const error = unwrapErr(result as Err<ContextError<number>>);
+
+    expect(error.message).toBe("status 404");
+    expect(error.cause).toBe(404);
+  });
+
+  it("should still wrap the error if the message throws", () => {
+    const result = withContext(err("cause"), () => {
+      throw new Error("oops");
+    });
+    const error = unwrapErr(result as Err<ContextError<string>>);
+
+    expect(error.message).toBe("Error: oops");
+    expect(error.cause).toBe("cause");
+  });
+
+  it("should work with promises", async () => {
+    const result = await withContext(
+      Promise.resolve(err("cause")),
+      () => "context",
+    );
+
+    expect(unwrapErr(result as Err<ContextError<string>>).message).toBe(
+      "context",
+    );
+  });
+});
+
+describe("formatErrorChain", () => {
+  it("should render the cause chain", () => {
+    const error = new ContextError(
+      { message: "while loading user 42" },
+      { cause: new TypeError("fetch failed", { cause: "ECONNREFUSED" }) },
+    );
+
+    expect(formatErrorChain(error)).toBe(
+      [
+        "ContextError: while loading user 42",
+        "  caused by: TypeError: fetch failed",
+        '    caused by: "ECONNREFUSED"',
+      ].join("\n"),
+    );
+  });
+
+  it("should render nested contexts", () => {
+    const result = context(
+      context(err(new Error("disk full")), "while writing the file"),
+      "while saving the report",
+    );
+
+    expect(formatErrorChain(unwrapErr(result as Err<unknown>))).toBe(
+      [
+        "ContextError: while saving the report",
+        "  caused by: ContextError: while writing the file",
+        "    caused by: Error: disk full",
+      ].join("\n"),
+    );
+  });
+
+  it("should render aggregate error children", () => {
+    const error = new AggregateError(
+      [new Error("first", { cause: 1 }), { code: "E_SECOND" }],
+      "many failed",
+    );
+
+    expect(formatErrorChain(error)).toBe(
+      [
+        "AggregateError: many failed",
+        "  [0] Error: first",
+        "    caused by: 1",
+        '  [1] {"code":"E_SECOND"}',
+      ].join("\n"),
+    );
+  });
+
+  it.each([
+    ["text", '"text"'],
+    [42, "42"],
+    [null, "null"],
+    [undefined, "undefined"],
+    [{ a: 1 }, '{"a":1}'],
+    [new Error(), "Error"],
+  ])("should render %p", (value, expected) => {
+    expect(formatErrorChain(value)).toBe(expected);
+  });
+
+  it("should not render an undefined cause if there is none", () => {
+    expect(formatErrorChain(new Error("error"))).toBe("Error: error");
+    expect(formatErrorChain(new Error("error", { cause: undefined }))).toBe(
+      ["Error: error", "  caused by: undefined"].join("\n"),
+    );
+  });
+
+  it("should stop at circular causes", () => {
+    const error = new Error("loop");
+    error.cause = error;
+
+    expect(formatErrorChain(error)).toBe(
+      ["Error: loop", "  caused by: [Circular]"].join("\n"),
+    );
+  });
+});
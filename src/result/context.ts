@@ -0,0 +1,155 @@
+import { describeValue, isPromise } from "../helpers";
+import { err, isOk, try$ } from "./impl";
+import { defineError } from "./tagged";
+import type { MaybePromise, Result } from "./types";
+
+/**
+ * An error that adds context to another error.
+ *
+ * The original error is kept as the `cause`.
+ *
+ * @see {@link context}
+ * @see {@link withContext}
+ */
+export class ContextError<E = unknown> extends defineError("ContextError")<{
+  message: string;
+}>() {
+  declare readonly cause: E;
+}
+
+/**
+ * Add context to the error of a result.
+ *
+ * If the result is an `Err`, the error is wrapped in a {@link ContextError}
+ * with the given message, and the original error as the `cause`.
+ *
+ * On an `Ok`, the original result is returned.
+ *
+ * @example
+ * ```ts
+ * const result = context(loadUser(42), "while loading user 42");
+ * // result is a Result<User, ContextError<LoadError>>
+ * ```
+ *
+ * @see {@link withContext}
+ * @see {@link formatErrorChain}
+ */
+export function context<T, E>(
+  result: Promise<Result<T, E>>,
+  message: string,
+): Promise<Result<T, ContextError<E>>>;
+export function context<T, E>(
+  result: Result<T, E>,
+  message: string,
+): Result<T, ContextError<E>>;
+export function context<T, E>(
+  result: MaybePromise<Result<T, E>>,
+  message: string,
+): MaybePromise<Result<T, ContextError<E>>> {
+  return withContext(result as Result<T, E>, () => message);
+}
+
+/**
+ * Add context to the error of a result, creating the message lazily.
+ *
+ * Works like {@link context}, but the message is only created if the result is an `Err`.
+ *
+ * If creating the message throws, the error is still wrapped, using the exception as the message.
+ *
+ * @example
+ * ```ts
+ * const result = withContext(loadUser(id), (error) => `while loading user ${id}`);
+ * // result is a Result<User, ContextError<LoadError>>
+ * ```
+ *
+ * @see {@link context}
+ */
+export function withContext<T, E>(
+  result: Promise<Result<T, E>>,
+  fn: (error: E) => string,
+): Promise<Result<T, ContextError<E>>>;
+export function withContext<T, E>(
+  result: Result<T, E>,
+  fn: (error: E) => string,
+): Result<T, ContextError<E>>;
+export function withContext<T, E>(
+  result: MaybePromise<Result<T, E>>,
+  fn: (error: E) => string,
+): MaybePromise<Result<T, ContextError<E>>> {
+  if (isPromise(result)) {
+    return result.then((x) => withContext(x, fn));
+  }
+
+  if (isOk(result)) {
+    return result;
+  }
+
+  const message = try$(() => fn(result.error));
+
+  return err(
+    new ContextError<E>(
+      { message: isOk(message) ? message.data : String(message.error) },
+      { cause: result.error },
+    ),
+  );
+}
+
+function formatLines(
+  error: unknown,
+  depth: number,
+  prefix: string,
+  seen: Set<unknown>,
+): string[] {
+  const indent = "  ".repeat(depth);
+
+  if (seen.has(error)) {
+    return [`${indent}${prefix}[Circular]`];
+  }
+
+  const lines = [`${indent}${prefix}${describeValue(error)}`];
+
+  if (!(error instanceof Error)) {
+    return lines;
+  }
+
+  seen.add(error);
+
+  if (error instanceof AggregateError) {
+    for (const [i, child] of error.errors.entries()) {
+      lines.push(...formatLines(child, depth + 1, `[${i}] `, seen));
+    }
+  }
+
+  if ("cause" in error) {
+    lines.push(...formatLines(error.cause, depth + 1, "caused by: ", seen));
+  }
+
+  seen.delete(error);
+
+  return lines;
+}
+
+/**
+ * Render an error and its whole `cause` chain as an indented report.
+ *
+ * `AggregateError` children are listed under their parent,
+ * and non-`Error` values are rendered as they are.
+ *
+ * @example
+ * ```ts
+ * const error = new ContextError(
+ *   { message: "while loading user 42" },
+ *   { cause: new TypeError("fetch failed", { cause: "ECONNREFUSED" }) },
+ * );
+ *
+ * formatErrorChain(error);
+ * // ContextError: while loading user 42
+ * //   caused by: TypeError: fetch failed
+ * //     caused by: "ECONNREFUSED"
+ * ```
+ *
+ * @see {@link context}
+ */
+export function formatErrorChain(error: unknown): string {
+  return formatLines(error, 0, "", new Set()).join("\n");
+}
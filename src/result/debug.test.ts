@@ -0,0 +1,172 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { all, partition } from "./collection";
+import { context } from "./context";
+import { disable, enable, isEnabled } from "./debug";
+import {
+  err,
+  isErr,
+  map,
+  mapErr,
+  ok,
+  tap,
+  tapErr,
+  tryMap,
+  unwrapErr,
+  unwrapOr,
+} from "./impl";
+import { match } from "./match";
+import type { UnhandledErr } from "./types";
+
+class FakeRegistry<T> {
+  static instance: FakeRegistry<unknown> | undefined;
+  readonly entries = new Map<object, T>();
+
+  constructor(readonly cleanup: (held: T) => void) {
+    FakeRegistry.instance = this as FakeRegistry<unknown>;
+  }
+
+  register(_target: object, held: T, token: object) {
+    this.entries.set(token, held);
+  }
+
+  unregister(token: object) {
+    return this.entries.delete(token);
+  }
+
+  /**
+   * Pretend every registered target was garbage collected.
+   */
+  collect() {
+    for (const held of this.entries.values()) {
+      this.cleanup(held);
+    }
+
+    this.entries.clear();
+  }
+}
+
+const collect = () => FakeRegistry.instance?.collect();
+
+describe("debug", () => {
+  const onUnhandled = vi.fn<(unhandled: UnhandledErr) => void>();
+
+  beforeEach(() => {
+    FakeRegistry.instance = undefined;
+    vi.stubGlobal("FinalizationRegistry", FakeRegistry);
+  });
+
+  afterEach(() => {
+    disable();
+    onUnhandled.mockReset();
+    vi.unstubAllGlobals();
+  });
+
+  it("should be disabled by default", () => {
+    expect(isEnabled()).toBe(false);
+
+    err("error");
+
+    expect(FakeRegistry.instance).toBeUndefined();
+  });
+
+  it("should report errs that were never handled", () => {
+    enable({ onUnhandled });
+    err("error");
+    collect();
+
+    expect(onUnhandled).toHaveBeenCalledExactlyOnceWith({
+      error: "error",
+      stack: expect.any(String),
+    });
+  });
+
+  it("should not report oks", () => {
+    enable({ onUnhandled });
+    ok(1);
+    collect();
+
+    expect(onUnhandled).not.toHaveBeenCalled();
+  });
+
+  it.each([
+    ["isErr", (x: ReturnType<typeof err<string>>) => isErr(x)],
+    ["unwrapErr", (x: ReturnType<typeof err<string>>) => unwrapErr(x)],
+    ["unwrapOr", (x: ReturnType<typeof err<string>>) => unwrapOr(x, 0)],
+    ["tapErr", (x: ReturnType<typeof err<string>>) => tapErr(x, vi.fn())],
+    [
+      "match",
+      (x: ReturnType<typeof err<string>>) =>
+        match(x, { ok: vi.fn(), err: vi.fn() }),
+    ],
+    ["partition", (x: ReturnType<typeof err<string>>) => partition([x])],
+  ])("should count %s as handling the err", (_, handle) => {
+    enable({ onUnhandled });
+    handle(err("error"));
+    collect();
+
+    expect(onUnhandled).not.toHaveBeenCalled();
+  });
+
+  it("should not count operators that pass the err on as handling it", () => {
+    enable({ onUnhandled });
+
+    const result = err("error");
+
+    map(result, (x) => x);
+    tap(result, vi.fn());
+    tryMap(result, (x) => ok(x));
+    all([result]);
+    collect();
+
+    expect(onUnhandled).toHaveBeenCalledOnce();
+  });
+
+  it("should track the new err of operators that replace the error", () => {
+    enable({ onUnhandled });
+    mapErr(err("error"), (x) => `mapped ${x}`);
+    context(err("error"), "while testing");
+    collect();
+
+    expect(onUnhandled.mock.calls.map(([x]) => x.error)).toStrictEqual([
+      "mapped error",
+      expect.objectContaining({ message: "while testing" }),
+    ]);
+  });
+
+  it("should not change the shape of the results", () => {
+    enable({ onUnhandled });
+
+    const result = err("error");
+
+    expect(result).toStrictEqual({ ok: false, error: "error" });
+    expect(Object.keys(result)).toStrictEqual(["ok", "error"]);
+    expect(Object.getPrototypeOf(result)).toBe(Object.prototype);
+  });
+
+  it("should stop reporting once disabled", () => {
+    enable({ onUnhandled });
+    err("error");
+    disable();
+    collect();
+
+    expect(isEnabled()).toBe(false);
+    expect(onUnhandled).not.toHaveBeenCalled();
+  });
+
+  it("should log with console.error by default", () => {
+    const consoleError = vi
+      .spyOn(console, "error")
+      .mockImplementation(() => undefined);
+
+    enable();
+    err("error");
+    collect();
+
+    expect(consoleError).toHaveBeenCalledWith(
+      "An Err result was never handled:",
+      "error",
+      expect.any(String),
+    );
+    consoleError.mockRestore();
+  });
+});
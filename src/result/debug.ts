@@ -0,0 +1,80 @@
+import { tracking } from "./tracking";
+import type { DebugOptions, UnhandledErr } from "./types";
+
+function logUnhandled({ error, stack }: UnhandledErr) {
+  console.error("An Err result was never handled:", error, stack);
+}
+
+/**
+ * Start reporting `Err` results that are never handled.
+ *
+ * Every result created with `err()` is tracked from then on.
+ * It counts as handled once it goes through an operator that looks at the error,
+ * like {@link isErr}, {@link unwrapErr}, {@link tapErr}, {@link mapErr}, {@link unwrapOr} or {@link match}.
+ * Operators that just pass the `Err` on, like {@link map} or {@link tryMap}, don't count.
+ *
+ * When a tracked `Err` is garbage collected without being handled, `onUnhandled` is called.
+ * Since this relies on a `FinalizationRegistry`, the report comes some time after the result is dropped,
+ * and may never come if the process exits first.
+ *
+ * The results keep the same plain-object shape.
+ * While disabled (the default), the operators only check whether debug mode is enabled.
+ *
+ * @example
+ * ```ts
+ * $result.debug.enable({
+ *   onUnhandled: ({ error, stack }) => logger.warn({ error, stack }, "Unhandled Err"),
+ * });
+ * ```
+ *
+ * @see {@link disable}
+ */
+export function enable(options: DebugOptions = {}): void {
+  const { onUnhandled = logUnhandled } = options;
+  let active = true;
+  const registry = new FinalizationRegistry<UnhandledErr>((unhandled) => {
+    if (active) {
+      onUnhandled(unhandled);
+    }
+  });
+
+  disable();
+
+  tracking.tracker = {
+    track: (result) => {
+      registry.register(
+        result,
+        { error: result.error, stack: new Error().stack },
+        result,
+      );
+    },
+    handle: (result) => {
+      registry.unregister(result);
+    },
+  };
+  tracking.stop = () => {
+    active = false;
+  };
+}
+
+/**
+ * Stop tracking `Err` results.
+ *
+ * Results that were tracked before are not reported anymore.
+ *
+ * @see {@link enable}
+ */
+export function disable(): void {
+  tracking.stop?.();
+  tracking.tracker = undefined;
+  tracking.stop = undefined;
+}
+
+/**
+ * Check whether debug mode is enabled.
+ *
+ * @see {@link enable}
+ */
+export function isEnabled(): boolean {
+  return tracking.tracker !== undefined;
+}
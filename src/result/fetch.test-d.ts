@@ -0,0 +1,50 @@
+import { describe, expectTypeOf, it } from "vitest";
+import type { StandardSchemaV1 } from "../standard-schema";
+import {
+  type BodyParseError,
+  type HttpStatusError,
+  type NetworkError,
+  fetch$,
+  json$,
+  jsonWith$,
+  text$,
+} from "./fetch";
+import { tryMap } from "./impl";
+import type { Result } from "./types";
+
+declare const schema: StandardSchemaV1<unknown, { name: string }>;
+
+describe("fetch$", () => {
+  it("should return the response or the request errors", () => {
+    expectTypeOf(fetch$("https://example.com")).toEqualTypeOf<
+      Promise<Result<Response, NetworkError | HttpStatusError>>
+    >();
+  });
+});
+
+describe("body helpers", () => {
+  it("should add the parse error when chained", () => {
+    expectTypeOf(tryMap(fetch$("https://example.com"), text$)).toEqualTypeOf<
+      Promise<Result<string, NetworkError | HttpStatusError | BodyParseError>>
+    >();
+  });
+
+  it("should use the type hint for json$", () => {
+    expectTypeOf(json$<{ id: number }>(new Response())).toEqualTypeOf<
+      Promise<Result<{ id: number }, BodyParseError>>
+    >();
+  });
+
+  it("should use the schema output for jsonWith$", () => {
+    expectTypeOf(
+      tryMap(fetch$("https://example.com"), jsonWith$(schema)),
+    ).toEqualTypeOf<
+      Promise<
+        Result<
+          { name: string },
+          NetworkError | HttpStatusError | BodyParseError
+        >
+      >
+    >();
+  });
+});
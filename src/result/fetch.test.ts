@@ -0,0 +1,182 @@
+import { type Server, createServer } from "node:http";
+import type { AddressInfo } from "node:net";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import type { StandardSchemaV1 } from "../standard-schema";
+import {
+  BodyParseError,
+  HttpStatusError,
+  NetworkError,
+  fetch$,
+  json$,
+  jsonWith$,
+  text$,
+} from "./fetch";
+import { ok, tryMap, unwrapErr } from "./impl";
+import type { Err } from "./types";
+
+const nameSchema: StandardSchemaV1<unknown, { name: string }> = {
+  "~standard": {
+    version: 1,
+    vendor: "test",
+    validate: (value) =>
+      typeof value === "object" &&
+      value !== null &&
+      "name" in value &&
+      typeof value.name === "string"
+        ? { value: { name: value.name } }
+        : { issues: [{ message: "Expected a name", path: ["name"] }] },
+  },
+};
+
+let server: Server;
+let url: string;
+
+function listen(server: Server): Promise<string> {
+  return new Promise((resolve) => {
+    server.listen(0, "127.0.0.1", () => {
+      const { port } = server.address() as AddressInfo;
+
+      resolve(`http://127.0.0.1:${port}`);
+    });
+  });
+}
+
+function close(server: Server): Promise<void> {
+  return new Promise((resolve) => {
+    server.close(() => resolve());
+  });
+}
+
+beforeAll(async () => {
+  server = createServer((req, res) => {
+    switch (req.url) {
+      case "/json":
+        res.setHeader("content-type", "application/json");
+        res.end(JSON.stringify({ name: "ishod" }));
+        break;
+      case "/invalid-json":
+        res.end("{ not json");
+        break;
+      case "/large-error":
+        res.statusCode = 500;
+        res.setHeader("x-request-id", "42");
+        res.end("x".repeat(10_000));
+        break;
+      default:
+        res.statusCode = 404;
+        res.statusMessage = "Not Found";
+        res.end("missing");
+    }
+  });
+  url = await listen(server);
+});
+
+afterAll(async () => {
+  await close(server);
+});
+
+describe("fetch$", () => {
+  it("should return an ok with the response for 2xx statuses", async () => {
+    const result = await fetch$(`${url}/json`);
+
+    expect(result.ok).toBe(true);
+    expect(result).toMatchObject({ data: { status: 200 } });
+  });
+
+  it("should return an HttpStatusError for other statuses", async () => {
+    const error = unwrapErr(
+      (await fetch$(`${url}/missing`)) as Err<HttpStatusError>,
+    );
+
+    expect(error).toBeInstanceOf(HttpStatusError);
+    expect(error).toMatchObject({
+      url: `${url}/missing`,
+      status: 404,
+      statusText: "Not Found",
+      body: "missing",
+    });
+  });
+
+  it("should keep the headers and bound the body", async () => {
+    const error = unwrapErr(
+      (await fetch$(`${url}/large-error`)) as Err<HttpStatusError>,
+    );
+
+    expect(error.status).toBe(500);
+    expect(error.headers.get("x-request-id")).toBe("42");
+    expect(error.body).toBe("x".repeat(1024));
+  });
+
+  it("should return a NetworkError if the request fails", async () => {
+    const closed = createServer();
+    const closedUrl = await listen(closed);
+    await close(closed);
+
+    const error = unwrapErr((await fetch$(closedUrl)) as Err<NetworkError>);
+
+    expect(error).toBeInstanceOf(NetworkError);
+    expect(error.url).toBe(closedUrl);
+    expect(error.cause).toBeInstanceOf(TypeError);
+  });
+
+  it("should accept a request object", async () => {
+    const result = await fetch$(new Request(`${url}/json`), {
+      method: "POST",
+    });
+
+    expect(result).toMatchObject({ ok: true, data: { status: 200 } });
+  });
+});
+
+describe("json$", () => {
+  it("should parse the body", async () => {
+    await expect(tryMap(fetch$(`${url}/json`), json$)).resolves.toStrictEqual(
+      ok({ name: "ishod" }),
+    );
+  });
+
+  it("should return a BodyParseError for invalid json", async () => {
+    const result = await tryMap(fetch$(`${url}/invalid-json`), json$);
+    const error = unwrapErr(result as Err<BodyParseError>);
+
+    expect(error).toBeInstanceOf(BodyParseError);
+    expect(error.cause).toBeInstanceOf(SyntaxError);
+  });
+});
+
+describe("text$", () => {
+  it("should read the body", async () => {
+    await expect(
+      tryMap(fetch$(`${url}/invalid-json`), text$),
+    ).resolves.toStrictEqual(ok("{ not json"));
+  });
+
+  it("should return a BodyParseError if the body was already read", async () => {
+    const response = new Response("text");
+    await response.text();
+
+    const error = unwrapErr((await text$(response)) as Err<BodyParseError>);
+
+    expect(error).toBeInstanceOf(BodyParseError);
+  });
+});
+
+describe("jsonWith$", () => {
+  it("should return the validated body", async () => {
+    await expect(
+      tryMap(fetch$(`${url}/json`), jsonWith$(nameSchema)),
+    ).resolves.toStrictEqual(ok({ name: "ishod" }));
+  });
+
+  it("should return a BodyParseError with the issues", async () => {
+    const response = new Response(JSON.stringify({ name: 42 }));
+    const error = unwrapErr(
+      (await jsonWith$(nameSchema)(response)) as Err<BodyParseError>,
+    );
+
+    expect(error).toBeInstanceOf(BodyParseError);
+    expect(error.issues).toStrictEqual([
+      { message: "Expected a name", path: ["name"] },
+    ]);
+  });
+});
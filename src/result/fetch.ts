@@ -0,0 +1,224 @@
+import type {
+  StandardSchemaV1,
+  StandardSchemaV1Output,
+} from "../standard-schema";
+import { err, mapErr, ok, try$, tryMap } from "./impl";
+import { defineError } from "./tagged";
+import type { Result, ValidationIssue } from "./types";
+import { validate } from "./validate";
+
+const BODY_PREVIEW_BYTES = 1024;
+
+/**
+ * The error returned by {@link fetch$} when the request could not be made at all
+ * (DNS failures, refused connections, aborted requests, ...).
+ *
+ * The `cause` is the error thrown by `fetch`.
+ */
+export class NetworkError extends defineError("NetworkError")<{
+  message: string;
+  url: string;
+}>() {}
+
+/**
+ * The error returned by {@link fetch$} when the response has a non-2xx status.
+ *
+ * The `body` only contains the first kilobyte of the response body,
+ * so large error pages don't end up in logs.
+ */
+export class HttpStatusError extends defineError("HttpStatusError")<{
+  message: string;
+  url: string;
+  status: number;
+  statusText: string;
+  headers: Headers;
+  body: string;
+}>() {}
+
+/**
+ * The error returned by {@link json$}, {@link text$} and {@link jsonWith$}
+ * when the response body could not be read or parsed.
+ *
+ * For {@link jsonWith$}, the schema issues are available in `issues`.
+ */
+export class BodyParseError extends defineError("BodyParseError")<{
+  message: string;
+  issues?: ValidationIssue[];
+}>() {}
+
+function urlOf(input: string | URL | Request): string {
+  return input instanceof Request ? input.url : String(input);
+}
+
+/**
+ * Read at most {@link BODY_PREVIEW_BYTES} of the body and cancel the rest.
+ */
+async function readPreview(response: Response): Promise<string> {
+  if (!response.body) {
+    return "";
+  }
+
+  const reader = response.body.getReader();
+  const bytes = new Uint8Array(BODY_PREVIEW_BYTES);
+  let size = 0;
+
+  try {
+    while (size < BODY_PREVIEW_BYTES) {
+      const chunk = await reader.read();
+
+      if (chunk.done) {
+        break;
+      }
+
+      const part = chunk.value.subarray(0, BODY_PREVIEW_BYTES - size);
+      bytes.set(part, size);
+      size += part.byteLength;
+    }
+  } catch {
+    // Keep whatever was read before the body failed
+  } finally {
+    reader.cancel().catch(() => undefined);
+  }
+
+  return new TextDecoder().decode(bytes.subarray(0, size));
+}
+
+async function checkStatus(
+  response: Response,
+): Promise<Result<Response, HttpStatusError>> {
+  if (response.ok) {
+    return ok(response);
+  }
+
+  return err(
+    new HttpStatusError({
+      message: `Request to ${response.url} failed with status ${response.status}`,
+      url: response.url,
+      status: response.status,
+      statusText: response.statusText,
+      headers: response.headers,
+      body: await readPreview(response),
+    }),
+  );
+}
+
+/**
+ * Make a request with `fetch` and return a result.
+ *
+ * Unlike `try$(fetch(url))`, responses with a non-2xx status are returned as an `Err`
+ * with an {@link HttpStatusError}, and requests that fail to go through
+ * are returned as an `Err` with a {@link NetworkError}.
+ *
+ * The body of an `Ok` response is left untouched,
+ * so it can be read with {@link json$}, {@link text$} or {@link jsonWith$}.
+ *
+ * @example
+ * ```ts
+ * const result = await fetch$("https://api.example.com/users/42");
+ * // result is a Result<Response, NetworkError | HttpStatusError>
+ * ```
+ * @example
+ * ```ts
+ * const user = await tryMap(fetch$(url), jsonWith$(User));
+ * // user is a Result<User, NetworkError | HttpStatusError | BodyParseError>
+ * ```
+ *
+ * @see {@link json$}
+ * @see {@link text$}
+ * @see {@link jsonWith$}
+ */
+export function fetch$(
+  input: string | URL | Request,
+  init?: RequestInit,
+): Promise<Result<Response, NetworkError | HttpStatusError>> {
+  const url = urlOf(input);
+  const response = try$(fetch(input, init), {
+    mapError: (cause) =>
+      new NetworkError({ message: `Request to ${url} failed`, url }, { cause }),
+  });
+
+  return tryMap(response, checkStatus);
+}
+
+/**
+ * Read the body of a response as JSON.
+ *
+ * The parsed value is not checked, so the type parameter is only a hint.
+ * Use {@link jsonWith$} to validate the body with a schema.
+ *
+ * @example
+ * ```ts
+ * const data = await tryMap(fetch$(url), json$);
+ * // data is a Result<unknown, NetworkError | HttpStatusError | BodyParseError>
+ * ```
+ *
+ * @see {@link jsonWith$}
+ * @see {@link text$}
+ */
+export function json$<T = unknown>(
+  response: Response,
+): Promise<Result<T, BodyParseError>> {
+  return try$(response.json() as Promise<T>, {
+    mapError: (cause) =>
+      new BodyParseError(
+        { message: "Failed to parse the response body as JSON" },
+        { cause },
+      ),
+  });
+}
+
+/**
+ * Read the body of a response as text.
+ *
+ * @example
+ * ```ts
+ * const html = await tryMap(fetch$(url), text$);
+ * // html is a Result<string, NetworkError | HttpStatusError | BodyParseError>
+ * ```
+ *
+ * @see {@link json$}
+ */
+export function text$(
+  response: Response,
+): Promise<Result<string, BodyParseError>> {
+  return try$(response.text(), {
+    mapError: (cause) =>
+      new BodyParseError(
+        { message: "Failed to read the response body" },
+        { cause },
+      ),
+  });
+}
+
+/**
+ * Create a function that reads the body of a response as JSON and validates it with a Standard Schema.
+ *
+ * If the body does not match the schema, a {@link BodyParseError} with the schema issues is returned.
+ *
+ * @example
+ * ```ts
+ * const User = z.object({ name: z.string() });
+ * const user = await tryMap(fetch$(url), jsonWith$(User));
+ * // user is a Result<{ name: string }, NetworkError | HttpStatusError | BodyParseError>
+ * ```
+ *
+ * @see {@link json$}
+ * @see {@link validate}
+ */
+export function jsonWith$<Schema extends StandardSchemaV1>(
+  schema: Schema,
+): (
+  response: Response,
+) => Promise<Result<StandardSchemaV1Output<Schema>, BodyParseError>> {
+  return (response) =>
+    tryMap(json$(response), async (body) =>
+      mapErr(
+        await validate(schema, body),
+        (issues) =>
+          new BodyParseError({
+            message: "The response body does not match the schema",
+            issues,
+          }),
+      ),
+    );
+}
@@ -0,0 +1,150 @@
+import { describe, expect, it, vi } from "vitest";
+import * as fp from "./fp";
+import { err, ok, unwrapErr } from "./impl";
+import { defineError } from "./tagged";
+import type { Err, Result } from "./types";
+
+const results: Result<number, string>[] = [ok(1), err("error")];
+
+class NotFoundError extends defineError("NotFound")<{ id: string }>() {}
+class TimeoutError extends defineError("Timeout")<{ ms: number }>() {}
+
+const tagged: Result<number, NotFoundError | TimeoutError>[] = [
+  ok(1),
+  err(new NotFoundError({ id: "42" })),
+  err(new TimeoutError({ ms: 100 })),
+];
+
+describe("fp", () => {
+  it("should map the data", () => {
+    expect(results.map(fp.map((x) => x * 2))).toStrictEqual([
+      ok(2),
+      err("error"),
+    ]);
+  });
+
+  it("should map the data with async functions", async () => {
+    await expect(
+      fp.map(async (x: number) => x * 2)(ok(1)),
+    ).resolves.toStrictEqual(ok(2));
+  });
+
+  it("should map the error", () => {
+    expect(results.map(fp.mapErr((e) => e.toUpperCase()))).toStrictEqual([
+      ok(1),
+      err("ERROR"),
+    ]);
+  });
+
+  it("should map the data into a new result", () => {
+    expect(
+      results.map(fp.tryMap((x) => (x > 1 ? ok(x) : err("too small")))),
+    ).toStrictEqual([err("too small"), err("error")]);
+  });
+
+  it("should tap into the data and the error", () => {
+    const onOk = vi.fn();
+    const onErr = vi.fn();
+
+    expect(results.map(fp.tap(onOk)).map(fp.tapErr(onErr))).toStrictEqual(
+      results,
+    );
+    expect(onOk).toHaveBeenCalledExactlyOnceWith(1);
+    expect(onErr).toHaveBeenCalledExactlyOnceWith("error");
+  });
+
+  it("should unwrap with a default value", () => {
+    expect(results.map(fp.unwrapOr(0))).toStrictEqual([1, 0]);
+  });
+
+  it("should add context to the error", () => {
+    const [, withMessage] = results.map(fp.context("while testing"));
+    const [, withLazyMessage] = results.map(
+      fp.withContext((e) => `while testing ${e}`),
+    );
+
+    expect(unwrapErr(withMessage as Err<Error>).message).toBe("while testing");
+    expect(unwrapErr(withLazyMessage as Err<Error>).message).toBe(
+      "while testing error",
+    );
+  });
+
+  it("should match the result", () => {
+    expect(
+      results.map(fp.match({ ok: (x) => x + 1, err: (e) => e.length })),
+    ).toStrictEqual([2, 5]);
+  });
+
+  it("should match the error by a key", () => {
+    expect(
+      tagged.map(
+        fp.matchErr("_tag", {
+          ok: () => 200,
+          err: { NotFound: () => 404, Timeout: () => 504 },
+        }),
+      ),
+    ).toStrictEqual([200, 404, 504]);
+  });
+
+  it("should catch tagged errors", () => {
+    expect(
+      tagged.map(fp.catchTag("NotFound", (error) => ok(Number(error.id)))),
+    ).toStrictEqual([ok(1), ok(42), tagged[2]]);
+    expect(
+      tagged.map(fp.catchTags({ Timeout: (error) => ok(error.ms) })),
+    ).toStrictEqual([ok(1), tagged[1], ok(100)]);
+  });
+
+  it("should recover from the error", () => {
+    expect(results.map(fp.orElse((e) => ok(e.length)))).toStrictEqual([
+      ok(1),
+      ok(5),
+    ]);
+    expect(results.map(fp.recover(() => 0))).toStrictEqual([ok(1), ok(0)]);
+    expect(
+      tagged.map(
+        fp.recover(
+          (error): error is TimeoutError => error instanceof TimeoutError,
+          (error) => error.ms,
+        ),
+      ),
+    ).toStrictEqual([ok(1), tagged[1], ok(100)]);
+  });
+
+  it("should combine with another result", () => {
+    expect(results.map(fp.and(ok("other")))).toStrictEqual([
+      ok("other"),
+      err("error"),
+    ]);
+    expect(results.map(fp.or(ok(0)))).toStrictEqual([ok(1), ok(0)]);
+  });
+
+  it("should ensure a condition on the data", () => {
+    expect(
+      results.map(
+        fp.ensure(
+          (x) => x > 1,
+          () => "small",
+        ),
+      ),
+    ).toStrictEqual([err("small"), err("error")]);
+  });
+
+  it("should unwrap or throw with a message", () => {
+    expect(fp.expect("should be ok")(ok(1))).toBe(1);
+    expect(() => fp.expect("should be ok")(err("error"))).toThrow(
+      "should be ok",
+    );
+  });
+
+  it("should have the unary operators", () => {
+    expect(results.map(fp.isOk)).toStrictEqual([true, false]);
+    expect(results.map(fp.isErr)).toStrictEqual([false, true]);
+    expect(results.map(fp.unwrapEither)).toStrictEqual([1, "error"]);
+    expect(results.map(fp.unwrapForced)).toStrictEqual([1, undefined]);
+    expect([ok(1)].map(fp.unwrap)).toStrictEqual([1]);
+    expect([err("error")].map(fp.unwrapErr)).toStrictEqual(["error"]);
+    expect([ok(ok(1))].map(fp.flatten)).toStrictEqual([ok(1)]);
+    expect(results.map(fp.swap)).toStrictEqual([err(1), ok("error")]);
+  });
+});
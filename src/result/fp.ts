@@ -0,0 +1,384 @@
+import type { Primitive } from "../helpers";
+import * as $assert from "./assert";
+import * as $combinators from "./combinators";
+import * as $context from "./context";
+import type { ContextError } from "./context";
+import * as impl from "./impl";
+import * as $match from "./match";
+import * as $tagged from "./tagged";
+import type {
+  AnyResult,
+  CatchTagsHandlers,
+  CatchTagsReturn,
+  Err,
+  ErrorTag,
+  MatchErrHandlers,
+  MatchHandlers,
+  Ok,
+  Result,
+  ResultError,
+  ResultValue,
+  TapFn,
+} from "./types";
+
+export { isErr, isOk } from "./impl";
+
+/**
+ * @internal
+ * The result of a step, which is a promise if the callback returned a promise.
+ */
+type Mapped<U, R> = [U] extends [Promise<unknown>] ? Promise<R> : R;
+
+/**
+ * @internal
+ * The result of a step that flattens the result `R` returned by the callback.
+ */
+type Flattened<R, E> = [R] extends [Promise<infer RR extends AnyResult>]
+  ? Promise<Result<ResultValue<RR>, E | ResultError<RR>>>
+  : R extends AnyResult
+    ? Result<ResultValue<R>, E | ResultError<R>>
+    : never;
+
+/**
+ * @internal
+ * The result of a step that replaces an `Err` with the result `R` returned by the callback.
+ */
+type Replaced<R, T> = [R] extends [Promise<infer RR extends AnyResult>]
+  ? Promise<Result<T | ResultValue<RR>, ResultError<RR>>>
+  : R extends AnyResult
+    ? Result<T | ResultValue<R>, ResultError<R>>
+    : never;
+
+/**
+ * Data-last version of {@link impl.map}.
+ *
+ * @example
+ * ```ts
+ * const results = [ok(1), err("error")].map(fp.map((x) => x * 2));
+ * // results is [ok(2), err("error")]
+ * ```
+ */
+export function map<T, U>(
+  fn: (data: T) => U,
+): <E>(result: Result<T, E>) => Mapped<U, Result<Awaited<U>, E>> {
+  return (result) => impl.map(result, fn) as never;
+}
+
+/**
+ * Data-last version of {@link impl.mapErr}.
+ *
+ * @example
+ * ```ts
+ * const toMessage = fp.mapErr((error: Error) => error.message);
+ * ```
+ */
+export function mapErr<E, U>(
+  fn: (error: E) => U,
+): <T>(result: Result<T, E>) => Mapped<U, Result<T, Awaited<U>>> {
+  return (result) => impl.mapErr(result, fn) as never;
+}
+
+/**
+ * Data-last version of {@link impl.tryMap}.
+ *
+ * @example
+ * ```ts
+ * const parsed = pipe(ok(input), fp.tryMap(parseNumber));
+ * ```
+ */
+export function tryMap<T, R extends AnyResult | Promise<AnyResult>>(
+  fn: (data: T) => R,
+): <E>(result: Result<T, E>) => Flattened<R, E> {
+  return (result) => impl.tryMap(result, fn as never) as never;
+}
+
+/**
+ * Data-last version of {@link impl.tap}.
+ */
+export function tap<T>(
+  fn: TapFn<T>,
+): <E>(result: Result<T, E>) => Result<T, E> {
+  return (result) => impl.tap(result, fn);
+}
+
+/**
+ * Data-last version of {@link impl.tapErr}.
+ */
+export function tapErr<E>(
+  fn: TapFn<E>,
+): <T>(result: Result<T, E>) => Result<T, E> {
+  return (result) => impl.tapErr(result, fn);
+}
+
+/**
+ * Data-last version of {@link impl.unwrapOr}.
+ *
+ * @example
+ * ```ts
+ * const values = results.map(fp.unwrapOr(0));
+ * ```
+ */
+export function unwrapOr<const U extends Primitive>(
+  or: U,
+): <T, E>(result: Result<T, E>) => T | U;
+export function unwrapOr<U>(or: U): <T, E>(result: Result<T, E>) => T | U;
+export function unwrapOr<U>(or: U): <T, E>(result: Result<T, E>) => T | U {
+  return (result) => impl.unwrapOr(result, or);
+}
+
+/**
+ * Data-last version of {@link $context.context}.
+ */
+export function context(
+  message: string,
+): <T, E>(result: Result<T, E>) => Result<T, ContextError<E>> {
+  return (result) => $context.context(result, message);
+}
+
+/**
+ * Data-last version of {@link $context.withContext}.
+ */
+export function withContext<E>(
+  fn: (error: E) => string,
+): <T>(result: Result<T, E>) => Result<T, ContextError<E>> {
+  return (result) => $context.withContext(result, fn);
+}
+
+/**
+ * Data-last version of {@link $match.match}.
+ *
+ * @example
+ * ```ts
+ * const messages = results.map(
+ *   fp.match({ ok: (x) => `got ${x}`, err: (error) => `failed with ${error}` }),
+ * );
+ * ```
+ */
+export function match<T, E, A, B>(
+  handlers: MatchHandlers<T, E, A, B>,
+): (result: Result<T, E>) => A | B {
+  return (result) => $match.match(result, handlers);
+}
+
+/**
+ * Data-last version of {@link $match.matchErr}.
+ *
+ * @example
+ * ```ts
+ * const statuses = results.map(
+ *   fp.matchErr("_tag", { ok: () => 200, err: { NotFound: () => 404 } }),
+ * );
+ * ```
+ */
+export function matchErr<
+  T,
+  E,
+  const Key extends keyof E,
+  A,
+  const H extends MatchErrHandlers<E, Key>,
+>(
+  key: Key,
+  handlers: { ok: (data: T) => A; err: H },
+): (result: Result<T, E>) => A | ReturnType<H[keyof H]> {
+  return (result) => $match.matchErr(result, key, handlers);
+}
+
+/**
+ * Data-last version of {@link impl.orElse}.
+ *
+ * @example
+ * ```ts
+ * const user = pipe(readCache(id), fp.orElse(() => fetchUser(id)));
+ * ```
+ */
+export function orElse<E, R extends AnyResult | Promise<AnyResult>>(
+  fn: (error: E) => R,
+): <T>(result: Result<T, E>) => Replaced<R, T> {
+  return (result) => impl.orElse(result, fn as never) as never;
+}
+
+/**
+ * Data-last version of {@link impl.recover}.
+ *
+ * @example
+ * ```ts
+ * const count = pipe(readCount(), fp.recover(() => 0));
+ * ```
+ */
+export function recover<E, G extends E, U>(
+  guard: (error: E) => error is G,
+  fn: (error: G) => U,
+): <T>(
+  result: Result<T, E>,
+) => Mapped<U, Result<T | Awaited<U>, Exclude<E, G>>>;
+export function recover<E, U>(
+  fn: (error: E) => U,
+): <T>(result: Result<T, E>) => Mapped<U, Result<T | Awaited<U>, never>>;
+export function recover<E, U>(
+  guardOrFn: ((error: E) => boolean) | ((error: E) => U),
+  fn?: (error: E) => U,
+): <T>(result: Result<T, E>) => unknown {
+  return (result) =>
+    fn
+      ? impl.recover(result, guardOrFn as never, fn as never)
+      : impl.recover(result, guardOrFn as (error: E) => U);
+}
+
+/**
+ * Data-last version of {@link $tagged.catchTag}.
+ *
+ * @example
+ * ```ts
+ * const user = pipe(getUser(id), fp.catchTag("NotFound", () => ok(guestUser)));
+ * ```
+ */
+export function catchTag<
+  T,
+  E,
+  const K extends ErrorTag<E>,
+  U = never,
+  EE = never,
+>(
+  tag: K,
+  fn: (error: Extract<E, { readonly _tag: K }>) => Result<U, EE>,
+): (
+  result: Result<T, E>,
+) => Result<T | U, Exclude<E, { readonly _tag: K }> | EE> {
+  return (result) => $tagged.catchTag(result, tag, fn);
+}
+
+/**
+ * Data-last version of {@link $tagged.catchTags}.
+ *
+ * @example
+ * ```ts
+ * const user = pipe(
+ *   getUser(id),
+ *   fp.catchTags({ NotFound: () => ok(guestUser), Timeout: () => ok(cachedUser) }),
+ * );
+ * ```
+ */
+export function catchTags<T, E, const H extends CatchTagsHandlers<E>>(
+  handlers: H,
+): (result: Result<T, E>) => CatchTagsReturn<T, E, H> {
+  return (result) => $tagged.catchTags(result, handlers);
+}
+
+/**
+ * Data-last version of {@link $combinators.and}.
+ *
+ * @example
+ * ```ts
+ * const results = checks.map(fp.and(ok("passed")));
+ * ```
+ */
+export function and<O extends AnyResult | Promise<AnyResult>>(
+  other: O,
+): <T, E>(
+  result: Result<T, E>,
+) => Mapped<O, Result<ResultValue<Awaited<O>>, E | ResultError<Awaited<O>>>> {
+  return (result) => $combinators.and(result, other as never) as never;
+}
+
+/**
+ * Data-last version of {@link $combinators.or}.
+ *
+ * @example
+ * ```ts
+ * const config = pipe(readLocalConfig(), fp.or(defaultConfig));
+ * ```
+ */
+export function or<O extends AnyResult | Promise<AnyResult>>(
+  other: O,
+): <T, E>(
+  result: Result<T, E>,
+) => Mapped<O, Result<T | ResultValue<Awaited<O>>, ResultError<Awaited<O>>>> {
+  return (result) => $combinators.or(result, other as never) as never;
+}
+
+/**
+ * Data-last version of {@link $combinators.ensure}.
+ *
+ * @example
+ * ```ts
+ * const adult = pipe(getAge(), fp.ensure((age) => age >= 18, () => "too young"));
+ * ```
+ */
+export function ensure<T, U extends T, const EE extends Primitive>(
+  predicate: (data: T) => data is U,
+  error: (data: T) => EE,
+): <E>(result: Result<T, E>) => Result<U, E | EE>;
+export function ensure<T, U extends T, EE>(
+  predicate: (data: T) => data is U,
+  error: (data: T) => EE,
+): <E>(result: Result<T, E>) => Result<U, E | EE>;
+export function ensure<T, const EE extends Primitive>(
+  predicate: (data: T) => boolean,
+  error: (data: T) => EE,
+): <E>(result: Result<T, E>) => Result<T, E | EE>;
+export function ensure<T, EE>(
+  predicate: (data: T) => boolean,
+  error: (data: T) => EE,
+): <E>(result: Result<T, E>) => Result<T, E | EE>;
+export function ensure<T, EE>(
+  predicate: (data: T) => boolean,
+  error: (data: T) => EE,
+): <E>(result: Result<T, E>) => Result<T, E | EE> {
+  return (result) => $combinators.ensure(result, predicate, error);
+}
+
+/**
+ * Data-last version of {@link $assert.expect}.
+ *
+ * @example
+ * ```ts
+ * const config = pipe(readConfig(), fp.expect("The config should be valid"));
+ * ```
+ */
+export function expect(message: string): <T, E>(result: Result<T, E>) => T {
+  return (result) => $assert.expect(result, message);
+}
+
+/**
+ * Single-signature version of {@link $combinators.flatten}, so it can be passed around point-free.
+ */
+export function flatten<T, E, EE>(
+  result: Result<Result<T, E>, EE>,
+): Result<T, E | EE> {
+  return $combinators.flatten(result);
+}
+
+/**
+ * Single-signature version of {@link $combinators.swap}, so it can be passed around point-free.
+ */
+export function swap<T, E>(result: Result<T, E>): Result<E, T> {
+  return $combinators.swap(result);
+}
+
+/**
+ * Single-signature version of {@link impl.unwrap}, so it can be passed around point-free.
+ */
+export function unwrap<T>(result: Ok<T>): T {
+  return impl.unwrap(result);
+}
+
+/**
+ * Single-signature version of {@link impl.unwrapErr}, so it can be passed around point-free.
+ */
+export function unwrapErr<E>(result: Err<E>): E {
+  return impl.unwrapErr(result);
+}
+
+/**
+ * Single-signature version of {@link impl.unwrapEither}, so it can be passed around point-free.
+ */
+export function unwrapEither<T, E>(result: Result<T, E>): T | E {
+  return impl.unwrapEither(result);
+}
+
+/**
+ * Single-signature version of {@link impl.unwrapForced}, so it can be passed around point-free.
+ */
+export function unwrapForced<T, E>(result: Result<T, E>): T | undefined {
+  return impl.unwrapForced(result);
+}
@@ -0,0 +1,45 @@
+import { describe, expectTypeOf, it } from "vitest";
+import { gen } from "./gen";
+import type { Ok, Result } from "./types";
+
+declare const a: Result<number, "a">;
+declare const b: Promise<Result<string, "b">>;
+
+describe("gen", () => {
+  it("should infer the error as the union of every step", () => {
+    const result = gen(function* ($) {
+      const x = yield* $(a);
+      const y = yield* $({} as Result<boolean, "c">);
+
+      expectTypeOf(x).toEqualTypeOf<number>();
+      expectTypeOf(y).toEqualTypeOf<boolean>();
+
+      return `${x}`;
+    });
+
+    expectTypeOf(result).toEqualTypeOf<Result<string, "a" | "c">>();
+  });
+
+  it("should have a never error if every step is an ok", () => {
+    expectTypeOf(
+      gen(function* ($) {
+        return yield* $({} as Ok<number>);
+      }),
+    ).toEqualTypeOf<Result<number, never>>();
+  });
+
+  it("should return a promise for async generators", () => {
+    const result = gen(async function* ($) {
+      const x = yield* $(a);
+      const y = yield* $(b);
+
+      expectTypeOf(y).toEqualTypeOf<string>();
+
+      return [x, y] as const;
+    });
+
+    expectTypeOf(result).toEqualTypeOf<
+      Promise<Result<readonly [number, string], "a" | "b">>
+    >();
+  });
+});
@@ -0,0 +1,104 @@
+import { describe, expect, it, vi } from "vitest";
+import { gen } from "./gen";
+import * as $result from "./impl";
+
+describe("gen", () => {
+  it("should unwrap every ok and return the value", () => {
+    const result = gen(function* ($) {
+      const a = yield* $($result.ok(1));
+      const b = yield* $($result.ok(2));
+
+      return a + b;
+    });
+
+    expect(result).toStrictEqual($result.ok(3));
+  });
+
+  it("should stop at the first err", () => {
+    const after = vi.fn();
+    const result = gen(function* ($) {
+      yield* $($result.ok(1));
+      yield* $($result.err("error"));
+      after();
+      yield* $($result.err("other error"));
+    });
+
+    expect(result).toStrictEqual($result.err("error"));
+    expect(after).not.toHaveBeenCalled();
+  });
+
+  it("should run finally blocks when stopping early", () => {
+    const cleanup = vi.fn();
+
+    gen(function* ($) {
+      try {
+        yield* $($result.err("error"));
+      } finally {
+        cleanup();
+      }
+    });
+
+    expect(cleanup).toHaveBeenCalledOnce();
+  });
+
+  it("should catch exceptions thrown in the generator", () => {
+    const error = new Error("error");
+
+    expect(
+      gen(function* ($) {
+        yield* $($result.ok(1));
+        throw error;
+      }),
+    ).toStrictEqual($result.err(error));
+  });
+
+  it("should not allow promises in sync generators", () => {
+    const result = gen(function* ($) {
+      // @ts-expect-error Promises can't be unwrapped in sync generators
+      yield* $(Promise.resolve($result.ok(1)));
+    });
+
+    expect($result.unwrapErr(result as never)).toBeInstanceOf(TypeError);
+  });
+});
+
+describe("gen (async)", () => {
+  it("should unwrap sync and promise results", async () => {
+    const result = gen(async function* ($) {
+      const a = yield* $($result.ok(1));
+      const b = yield* $(Promise.resolve($result.ok(2)));
+
+      return a + b;
+    });
+
+    expect(result).toBeInstanceOf(Promise);
+    await expect(result).resolves.toStrictEqual($result.ok(3));
+  });
+
+  it("should stop at the first err", async () => {
+    const after = vi.fn();
+    const result = gen(async function* ($) {
+      yield* $(Promise.resolve($result.err("error")));
+      after();
+    });
+
+    await expect(result).resolves.toStrictEqual($result.err("error"));
+    expect(after).not.toHaveBeenCalled();
+  });
+
+  it("should catch exceptions and rejections in the generator", async () => {
+    const error = new Error("error");
+
+    await expect(
+      gen(async function* ($) {
+        yield* $($result.ok(1));
+        throw error;
+      }),
+    ).resolves.toStrictEqual($result.err(error));
+    await expect(
+      gen(async function* ($) {
+        yield* $(Promise.reject(error));
+      }),
+    ).resolves.toStrictEqual($result.err(error));
+  });
+});
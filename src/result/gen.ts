@@ -0,0 +1,135 @@
+import { isPromise } from "../helpers";
+import { err, ok } from "./impl";
+import type {
+  AsyncGenStep,
+  Err,
+  GenStep,
+  GenUnwrap,
+  MaybePromise,
+  Result,
+} from "./types";
+
+function step<T, E>(
+  result: MaybePromise<Result<T, E>>,
+): GenStep<T, E> & AsyncGenStep<T, E> {
+  return {
+    *[Symbol.iterator]() {
+      if (isPromise(result)) {
+        throw new TypeError(
+          "Promise results can only be unwrapped inside of async generators",
+        );
+      }
+
+      if (!result.ok) {
+        yield result;
+      }
+
+      return (result as { data: T }).data;
+    },
+    async *[Symbol.asyncIterator]() {
+      const x = await result;
+
+      if (!x.ok) {
+        yield x;
+      }
+
+      return (x as { data: T }).data;
+    },
+  };
+}
+
+/**
+ * Write sequential result code with generators instead of nested callbacks.
+ *
+ * The generator receives an unwrap function (`$`).
+ * Each `yield* $(result)` either evaluates to the data of an `Ok`,
+ * or stops the block early and returns the `Err`.
+ *
+ * The value returned from the generator is wrapped in an `Ok`.
+ *
+ * The error type of the block is the union of the errors of every unwrapped result.
+ *
+ * If the generator throws, the exception is caught and returned as an `Err`, just like {@link try$}.
+ *
+ * Async generators can also unwrap promises of results, and return a promise.
+ *
+ * @example
+ * ```ts
+ * const result = gen(function* ($) {
+ *   const a = yield* $(parse(input)); // Result<number, "invalid">
+ *   const b = yield* $(divide(10, a)); // Result<number, "division by zero">
+ *
+ *   return a + b;
+ * });
+ * // result is a Result<number, "invalid" | "division by zero">
+ * ```
+ * @example
+ * ```ts
+ * const result = await gen(async function* ($) {
+ *   const user = yield* $(fetchUser(id)); // Promise<Result<User, "not found">>
+ *   const posts = yield* $(fetchPosts(user)); // Promise<Result<Post[], "offline">>
+ *
+ *   return { user, posts };
+ * });
+ * // result is a Result<{ user: User; posts: Post[] }, "not found" | "offline">
+ * ```
+ *
+ * @see {@link tryMap}
+ */
+export function gen<T, E = never>(
+  fn: ($: GenUnwrap) => AsyncGenerator<Err<E>, T, unknown>,
+): Promise<Result<T, E>>;
+export function gen<T, E = never>(
+  fn: ($: GenUnwrap) => Generator<Err<E>, T, unknown>,
+): Result<T, E>;
+export function gen<T, E>(
+  fn: (
+    $: GenUnwrap,
+  ) => Generator<Err<E>, T, unknown> | AsyncGenerator<Err<E>, T, unknown>,
+): Result<T, E> | Promise<Result<T, E>> {
+  let iterator:
+    | Generator<Err<E>, T, unknown>
+    | AsyncGenerator<Err<E>, T, unknown>;
+
+  try {
+    iterator = fn(step as GenUnwrap);
+  } catch (e) {
+    return err(e as E);
+  }
+
+  if (Symbol.asyncIterator in iterator) {
+    return runAsync(iterator);
+  }
+
+  try {
+    const next = iterator.next();
+
+    if (next.done) {
+      return ok(next.value);
+    }
+
+    iterator.return(undefined as T);
+
+    return next.value;
+  } catch (e) {
+    return err(e as E);
+  }
+}
+
+async function runAsync<T, E>(
+  iterator: AsyncGenerator<Err<E>, T, unknown>,
+): Promise<Result<T, E>> {
+  try {
+    const next = await iterator.next();
+
+    if (next.done) {
+      return ok(next.value);
+    }
+
+    await iterator.return(undefined as T);
+
+    return next.value;
+  } catch (e) {
+    return err(e as E);
+  }
+}
@@ -0,0 +1,35 @@
+import { describe, expectTypeOf, it } from "vitest";
+import { toError, try$ } from "./impl";
+import type { Result } from "./types";
+
+class HttpError extends Error {
+  status = 500;
+}
+
+describe("try$", () => {
+  it("should infer the error from the caught classes", () => {
+    expectTypeOf(
+      try$(() => "value" as string, { catch: [TypeError, HttpError] }),
+    ).toEqualTypeOf<Result<string, TypeError | HttpError>>();
+    expectTypeOf(
+      try$(async () => 1 as number, { catch: [HttpError] }),
+    ).toEqualTypeOf<Promise<Result<number, HttpError>>>();
+    expectTypeOf(
+      try$(Promise.resolve(1 as number), { catch: [HttpError] }),
+    ).toEqualTypeOf<Promise<Result<number, HttpError>>>();
+  });
+
+  it("should infer the error from the mapper", () => {
+    expectTypeOf(try$(() => 1 as number, { mapError: toError })).toEqualTypeOf<
+      Result<number, Error>
+    >();
+    expectTypeOf(
+      try$(Promise.resolve(1 as number), { mapError: () => "error" as const }),
+    ).toEqualTypeOf<Promise<Result<number, "error">>>();
+  });
+
+  it("should only accept classes", () => {
+    // @ts-expect-error Only classes can be used as filters
+    try$(() => 1, { catch: ["error"] });
+  });
+});
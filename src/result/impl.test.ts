@@ -1,5 +1,6 @@
 import { describe, expect, it, vi } from "vitest";
 import * as $result from "./impl";
+import type { Err } from "./types";
 
 describe("result", () => {
   it.each([
@@ -10,6 +11,25 @@ describe("result", () => {
   });
 });
 
+describe("isResult", () => {
+  it.each([[$result.ok(1)], [$result.err(undefined)]])(
+    "should return true for results: %p",
+    (value) => {
+      expect($result.isResult(value)).toBe(true);
+    },
+  );
+
+  it.each([
+    [null],
+    [1],
+    [{ ok: true }],
+    [{ ok: 1, data: 1 }],
+    [new Response()],
+  ])("should return false for other values: %p", (value) => {
+    expect($result.isResult(value)).toBe(false);
+  });
+});
+
 describe("isOk", () => {
   it("should return true if the result is an ok", () => {
     const value = Symbol("value");
@@ -180,6 +200,120 @@ describe("try$", () => {
   });
 });
 
+describe("try$ options", () => {
+  class HttpError extends Error {}
+  const thrown = "error";
+
+  it("should only catch instances of the listed classes", async () => {
+    const error = new HttpError("error");
+
+    expect(
+      $result.try$(
+        () => {
+          throw error;
+        },
+        { catch: [TypeError, HttpError] },
+      ),
+    ).toStrictEqual($result.err(error));
+
+    await expect(
+      $result.try$(Promise.reject(error), { catch: [HttpError] }),
+    ).resolves.toStrictEqual($result.err(error));
+  });
+
+  it("should rethrow anything else", async () => {
+    const error = new RangeError("error");
+
+    expect(() =>
+      $result.try$(
+        () => {
+          throw error;
+        },
+        { catch: [TypeError, HttpError] },
+      ),
+    ).toThrow(error);
+
+    await expect(
+      $result.try$(
+        async () => {
+          throw thrown;
+        },
+        { catch: [HttpError] },
+      ),
+    ).rejects.toBe("error");
+  });
+
+  it("should keep oks when filtering", () => {
+    expect($result.try$(() => 1, { catch: [TypeError] })).toStrictEqual(
+      $result.ok(1),
+    );
+  });
+
+  it("should map the caught error", async () => {
+    const mapError = vi.fn((e: unknown) => `mapped ${e}`);
+
+    expect(
+      $result.try$(
+        () => {
+          throw thrown;
+        },
+        { mapError },
+      ),
+    ).toStrictEqual($result.err("mapped error"));
+
+    await expect(
+      $result.try$(Promise.reject("error"), { mapError }),
+    ).resolves.toStrictEqual($result.err("mapped error"));
+  });
+
+  it("should only map the errors that pass the filter", () => {
+    const mapError = vi.fn(() => "mapped");
+
+    expect(() =>
+      $result.try$(
+        () => {
+          throw thrown;
+        },
+        { catch: [HttpError], mapError },
+      ),
+    ).toThrow();
+    expect(mapError).not.toHaveBeenCalled();
+  });
+});
+
+describe("toError", () => {
+  it("should return errors as they are", () => {
+    const error = new TypeError("error");
+
+    expect($result.toError(error)).toBe(error);
+  });
+
+  it.each([
+    ["error", "error"],
+    [42, "42"],
+    [null, "null"],
+    [{ code: 42 }, '{"code":42}'],
+  ])("should wrap %p", (value, message) => {
+    const error = $result.toError(value);
+
+    expect(error).toBeInstanceOf(Error);
+    expect(error.message).toBe(message);
+    expect(error.cause).toBe(value);
+  });
+
+  it("should work as the mapError option", () => {
+    const thrown = "error";
+    const result = $result.try$(
+      () => {
+        throw thrown;
+      },
+      { mapError: $result.toError },
+    );
+
+    expect($result.unwrapErr(result as Err<Error>).message).toBe("error");
+  });
+});
+
 describe("map", () => {
   it("should map the value if it succeeds", () => {
     const value = Symbol("value");
@@ -357,6 +491,142 @@ describe("tryMap", () => {
       ),
     ).resolves.toStrictEqual($result.err(mapped));
   });
+
+  it("should map the value with an async function", async () => {
+    const value = Symbol("value");
+    const mapped = Symbol("mapped");
+
+    await expect(
+      $result.tryMap($result.ok(value), async () => $result.ok(mapped)),
+    ).resolves.toStrictEqual($result.ok(mapped));
+  });
+
+  it("should map the promise value with an async function", async () => {
+    const value = Symbol("value");
+    const mapped = Symbol("mapped");
+
+    await expect(
+      $result.tryMap(Promise.resolve($result.ok(value)), async () =>
+        $result.err(mapped),
+      ),
+    ).resolves.toStrictEqual($result.err(mapped));
+  });
+});
+
+describe("orElse", () => {
+  it("should not call the function if the result is an ok", () => {
+    const value = Symbol("value");
+    const fn = vi.fn();
+
+    expect($result.orElse($result.ok(value), fn)).toStrictEqual(
+      $result.ok(value),
+    );
+    expect(fn).not.toHaveBeenCalled();
+  });
+
+  it("should replace the err with the returned result", () => {
+    const error = Symbol("error");
+    const value = Symbol("value");
+    const fn = vi.fn().mockReturnValue($result.ok(value));
+
+    expect($result.orElse($result.err(error), fn)).toStrictEqual(
+      $result.ok(value),
+    );
+    expect(fn).toHaveBeenCalledWith(error);
+  });
+
+  it("should return a new err from the function", () => {
+    const error = Symbol("error");
+    const mapped = Symbol("mapped");
+
+    expect(
+      $result.orElse($result.err(error), () => $result.err(mapped)),
+    ).toStrictEqual($result.err(mapped));
+  });
+
+  it("should work with an async function", async () => {
+    const value = Symbol("value");
+
+    await expect(
+      $result.orElse($result.err("error"), async () => $result.ok(value)),
+    ).resolves.toStrictEqual($result.ok(value));
+  });
+
+  it("should work with a promise result", async () => {
+    const value = Symbol("value");
+
+    await expect(
+      $result.orElse(Promise.resolve($result.err("error")), () =>
+        $result.ok(value),
+      ),
+    ).resolves.toStrictEqual($result.ok(value));
+    await expect(
+      $result.orElse(Promise.resolve($result.ok(value)), vi.fn()),
+    ).resolves.toStrictEqual($result.ok(value));
+  });
+});
+
+describe("recover", () => {
+  it("should not call the function if the result is an ok", () => {
+    const value = Symbol("value");
+    const fn = vi.fn();
+
+    expect($result.recover($result.ok(value), fn)).toStrictEqual(
+      $result.ok(value),
+    );
+    expect(fn).not.toHaveBeenCalled();
+  });
+
+  it("should turn the error into data", () => {
+    const error = Symbol("error");
+    const value = Symbol("value");
+    const fn = vi.fn().mockReturnValue(value);
+
+    expect($result.recover($result.err(error), fn)).toStrictEqual(
+      $result.ok(value),
+    );
+    expect(fn).toHaveBeenCalledWith(error);
+  });
+
+  it("should work with an async function", async () => {
+    const value = Symbol("value");
+
+    await expect(
+      $result.recover($result.err("error"), async () => value),
+    ).resolves.toStrictEqual($result.ok(value));
+  });
+
+  it("should work with a promise result", async () => {
+    const value = Symbol("value");
+
+    await expect(
+      $result.recover(Promise.resolve($result.err("error")), () => value),
+    ).resolves.toStrictEqual($result.ok(value));
+  });
+
+  it("should only recover errors matching the guard", () => {
+    const isString = (x: unknown): x is string => typeof x === "string";
+    const fn = vi.fn().mockReturnValue(0);
+
+    expect($result.recover($result.err("error"), isString, fn)).toStrictEqual(
+      $result.ok(0),
+    );
+    expect($result.recover($result.err(1), isString, fn)).toStrictEqual(
+      $result.err(1),
+    );
+    expect(fn).toHaveBeenCalledTimes(1);
+  });
+
+  it("should work with a guard and a promise result", async () => {
+    const isString = (x: unknown): x is string => typeof x === "string";
+
+    await expect(
+      $result.recover(Promise.resolve($result.err(1)), isString, () => 0),
+    ).resolves.toStrictEqual($result.err(1));
+    await expect(
+      $result.recover($result.err("error"), isString, async () => 0),
+    ).resolves.toStrictEqual($result.ok(0));
+  });
 });
 
 describe("tap", () => {
@@ -1,5 +1,11 @@
-import { type Primitive, isPromise } from "../helpers";
-import type { Err, Ok, Result, TapFn } from "./types";
+import {
+  type Primitive,
+  isPlainObject,
+  isPromise,
+  stringify,
+} from "../helpers";
+import { tracking } from "./tracking";
+import type { Err, ErrorClass, Ok, Result, TapFn, TryOptions } from "./types";
 
 /**
  * Create an `Ok` variant.
@@ -35,10 +41,43 @@ export function ok<T>(data: T): Ok<T> {
 export function err<const E extends Primitive>(error: E): Err<E>;
 export function err<E>(error: E): Err<E>;
 export function err<E>(error: E): Err<E> {
-  return {
+  const result: Err<E> = {
     ok: false,
     error: error,
   };
+
+  tracking.tracker?.track(result);
+
+  return result;
+}
+
+/**
+ * Used to check if a value is a result.
+ *
+ * Only plain objects with the shape of an `Ok` or an `Err` are considered results.
+ *
+ * @example
+ * ```ts
+ * isResult(ok(1)); // true
+ * isResult(err("error")); // true
+ * isResult({ ok: true }); // false
+ * isResult(1); // false
+ * ```
+ */
+export function isResult(value: unknown): value is Result<unknown, unknown> {
+  if (!isPlainObject(value)) {
+    return false;
+  }
+
+  if (value.ok === true) {
+    return "data" in value;
+  }
+
+  if (value.ok === false) {
+    return "error" in value;
+  }
+
+  return false;
 }
 
 /**
@@ -59,6 +98,8 @@ export function err<E>(error: E): Err<E> {
  * ```
  */
 export function isOk<T, E>(result: Result<T, E>): result is Ok<T> {
+  tracking.tracker?.handle(result);
+
   return result.ok;
 }
 
@@ -80,6 +121,8 @@ export function isOk<T, E>(result: Result<T, E>): result is Ok<T> {
  * ```
  */
 export function isErr<T, E>(result: Result<T, E>): result is Err<E> {
+  tracking.tracker?.handle(result);
+
   return !result.ok;
 }
 
@@ -134,6 +177,8 @@ export function unwrapErr<E>(err: Err<E> | Promise<Err<E>>): E | Promise<E> {
     return err.then((x) => unwrapErr(x));
   }
 
+  tracking.tracker?.handle(err);
+
   return err.error;
 }
 
@@ -183,6 +228,8 @@ export function unwrapForced<T, E>(
     return result.then((x) => unwrapForced(x));
   }
 
+  tracking.tracker?.handle(result);
+
   return (result as Ok<T>).data;
 }
 
@@ -345,7 +392,7 @@ export function tap<T, E>(
     return result.then((x) => tap(x, fn));
   }
 
-  if (isOk(result)) {
+  if (result.ok) {
     fn(result.data);
   }
 
@@ -465,7 +512,7 @@ export function map<T, E, U>(
     return result.then((x) => map(x, fn));
   }
 
-  if (isOk(result)) {
+  if (result.ok) {
     return try$(() => fn(result.data));
   }
 
@@ -585,12 +632,20 @@ export function mapErr<T, E, U>(
  * });
  * // result is an Err with the error "new error";
  * ```
+ *
+ * @example
+ * ```ts
+ * const result = await tryMap(ok(id), async (id) => fetchUser(id));
+ * // result is a Result<User, FetchError>
+ * ```
+ *
+ * @see {@link orElse}
  */
 export function tryMap<
   T,
   E,
-  const TT extends Primitive,
-  const EE extends Primitive,
+  const TT extends Primitive = never,
+  const EE extends Primitive = never,
 >(
   result: Promise<Result<T, E>>,
   fn: (data: T) => Result<TT, EE>,
@@ -598,33 +653,41 @@ export function tryMap<
 export function tryMap<
   T,
   E,
-  const TT extends Primitive,
-  const EE extends Primitive,
+  const TT extends Primitive = never,
+  const EE extends Primitive = never,
 >(result: Result<T, E>, fn: (data: T) => Result<TT, EE>): Result<TT, E | EE>;
-export function tryMap<T, E, const TT extends Primitive, EE>(
+export function tryMap<T, E, const TT extends Primitive = never, EE = never>(
   result: Promise<Result<T, E>>,
   fn: (data: T) => Result<TT, EE>,
 ): Promise<Result<TT, E | EE>>;
-export function tryMap<T, E, const TT extends Primitive, EE>(
+export function tryMap<T, E, const TT extends Primitive = never, EE = never>(
   result: Result<T, E>,
   fn: (data: T) => Result<TT, EE>,
 ): Result<TT, E | EE>;
-export function tryMap<T, E, TT, const EE extends Primitive>(
+export function tryMap<T, E, TT = never, const EE extends Primitive = never>(
   result: Promise<Result<T, E>>,
   fn: (data: T) => Result<TT, EE>,
 ): Promise<Result<TT, E | EE>>;
-export function tryMap<T, E, TT, const EE extends Primitive>(
+export function tryMap<T, E, TT = never, const EE extends Primitive = never>(
   result: Result<T, E>,
   fn: (data: T) => Result<TT, EE>,
 ): Result<TT, E | EE>;
-export function tryMap<T, E, TT, EE>(
+export function tryMap<T, E, TT = never, EE = never>(
   result: Promise<Result<T, E>>,
   fn: (data: T) => Result<TT, EE>,
 ): Promise<Result<TT, E | EE>>;
-export function tryMap<T, E, TT, EE>(
+export function tryMap<T, E, TT = never, EE = never>(
   result: Result<T, E>,
   fn: (data: T) => Result<TT, EE>,
 ): Result<TT, E | EE>;
+export function tryMap<T, E, TT = never, EE = never>(
+  result: Promise<Result<T, E>>,
+  fn: (data: T) => Promise<Result<TT, EE>> | Result<TT, EE>,
+): Promise<Result<TT, E | EE>>;
+export function tryMap<T, E, TT = never, EE = never>(
+  result: Result<T, E>,
+  fn: (data: T) => Promise<Result<TT, EE>>,
+): Promise<Result<TT, E | EE>>;
 export function tryMap<T, E, TT, EE>(
   result: Promise<Result<T, E>> | Result<T, E>,
   fn: (data: T) => Promise<Result<TT, EE>> | Result<TT, EE>,
@@ -633,18 +696,159 @@ export function tryMap<T, E, TT, EE>(
     return result.then((x) => tryMap(x, fn as never)) as never;
   }
 
-  if (isOk(result)) {
+  if (result.ok) {
     return fn(result.data);
   }
 
   return result;
 }
 
+/**
+ * Recover from an error with a function that returns a new result.
+ *
+ * Works like {@link tryMap}, but for the error.
+ * The callback is called with the error, and the result it returns is treated as the new result.
+ *
+ * If the original result is an `Ok`, the callback will not be called, and the original `Ok` will be returned.
+ *
+ * @example
+ * ```ts
+ * const result = orElse(readCache(key), () => fetchFromNetwork(key));
+ * // result is a Result<Data, NetworkError>
+ * ```
+ * @example
+ * ```ts
+ * const result = await orElse(fetchUser(id), async (error) =>
+ *   error === "not found" ? ok(guest) : err(error),
+ * );
+ * ```
+ *
+ * @see {@link recover}
+ * @see {@link tryMap}
+ */
+export function orElse<T, E, TT = never, EE = never>(
+  result: Promise<Result<T, E>>,
+  fn: (error: E) => Promise<Result<TT, EE>> | Result<TT, EE>,
+): Promise<Result<T | TT, EE>>;
+export function orElse<T, E, TT = never, EE = never>(
+  result: Result<T, E>,
+  fn: (error: E) => Promise<Result<TT, EE>>,
+): Promise<Result<T | TT, EE>>;
+export function orElse<T, E, TT = never, EE = never>(
+  result: Result<T, E>,
+  fn: (error: E) => Result<TT, EE>,
+): Result<T | TT, EE>;
+export function orElse<T, E, TT = never, EE = never>(
+  result: Result<T, E>,
+  fn: (error: E) => Promise<Result<TT, EE>> | Result<TT, EE>,
+): Promise<Result<T | TT, EE>>;
+export function orElse<T, E, TT, EE>(
+  result: Promise<Result<T, E>> | Result<T, E>,
+  fn: (error: E) => Promise<Result<TT, EE>> | Result<TT, EE>,
+): Result<T | TT, EE> | Promise<Result<T | TT, EE>> {
+  if (isPromise(result)) {
+    return result.then((x) => orElse(x, fn as (error: E) => Result<TT, EE>));
+  }
+
+  if (result.ok) {
+    return result;
+  }
+
+  return fn(unwrapErr(result));
+}
+
+/**
+ * Recover from an error by turning it into data.
+ *
+ * If the result is an `Err`, the callback is called with the error, and its return value is returned as an `Ok`.
+ *
+ * A type guard can be passed before the callback to only recover from some errors.
+ * The other errors are returned as they are, and the recovered ones are removed from the error type.
+ *
+ * @example
+ * ```ts
+ * const result = recover(parsePort(input), () => 8080);
+ * // result is a Result<number, never>
+ * ```
+ * @example
+ * ```ts
+ * const result = recover(
+ *   loadConfig(path), // Result<Config, NotFoundError | ParseError>
+ *   (error) => error instanceof NotFoundError,
+ *   () => defaultConfig,
+ * );
+ * // result is a Result<Config, ParseError>
+ * ```
+ *
+ * @see {@link orElse}
+ * @see {@link unwrapOr}
+ */
+export function recover<T, E, G extends E, U>(
+  result: Promise<Result<T, E>>,
+  guard: (error: E) => error is G,
+  fn: (error: G) => U | Promise<U>,
+): Promise<Result<T | U, Exclude<E, G>>>;
+export function recover<T, E, G extends E, U>(
+  result: Result<T, E>,
+  guard: (error: E) => error is G,
+  fn: (error: G) => Promise<U>,
+): Promise<Result<T | U, Exclude<E, G>>>;
+export function recover<T, E, G extends E, U>(
+  result: Result<T, E>,
+  guard: (error: E) => error is G,
+  fn: (error: G) => U,
+): Result<T | U, Exclude<E, G>>;
+export function recover<T, E, U>(
+  result: Promise<Result<T, E>>,
+  fn: (error: E) => U | Promise<U>,
+): Promise<Result<T | U, never>>;
+export function recover<T, E, U>(
+  result: Result<T, E>,
+  fn: (error: E) => Promise<U>,
+): Promise<Result<T | U, never>>;
+export function recover<T, E, U>(
+  result: Result<T, E>,
+  fn: (error: E) => U,
+): Result<T | U, never>;
+export function recover<T, E, U>(
+  result: Promise<Result<T, E>> | Result<T, E>,
+  guardOrFn: ((error: E) => boolean) | ((error: E) => U | Promise<U>),
+  fn?: (error: E) => U | Promise<U>,
+): Result<T | U, E> | Promise<Result<T | U, E>> {
+  if (isPromise(result)) {
+    return result.then((x) => recover(x, guardOrFn as never, fn as never));
+  }
+
+  if (result.ok) {
+    return result;
+  }
+
+  const guard = fn ? (guardOrFn as (error: E) => boolean) : undefined;
+  const handler = fn ?? (guardOrFn as (error: E) => U | Promise<U>);
+
+  if (guard && !guard(result.error)) {
+    return result;
+  }
+
+  const value = handler(unwrapErr(result));
+
+  if (isPromise(value)) {
+    return value.then((x) => ok(x));
+  }
+
+  return ok(value);
+}
+
 /**
  * Try to run a function and return a result.
  *
  * If the function throws an error, it will be caught and returned as an `Err`.
  *
+ * With the `catch` option, only instances of the listed classes are returned as an `Err`,
+ * and anything else is rethrown.
+ *
+ * With the `mapError` option, the caught error is mapped before being returned.
+ *
  * @example
  * ```ts
  * const result = try$(() => {
@@ -669,32 +873,104 @@ export function tryMap<T, E, TT, EE>(
  * const result: Promise<Result<number, string>> = try$(Promise.reject("error"));
  * // result is an Err with the error "error";
  * ```
+ * @example
+ * ```ts
+ * const result = try$(() => JSON.parse(input), { catch: [SyntaxError] });
+ * // result is a Result<any, SyntaxError>, other errors are rethrown
+ * ```
+ * @example
+ * ```ts
+ * const result = try$(() => doSomething(), { mapError: toError });
+ * // result is a Result<Thing, Error>
+ * ```
  *
  * @see {@link map}
  * @see {@link mapErr}
  * @see {@link tap}
  * @see {@link tapErr}
+ * @see {@link toError}
  */
+export function try$<
+  const T extends Primitive,
+  const C extends readonly ErrorClass[],
+>(
+  fn: () => T,
+  options: { catch: C; mapError?: undefined },
+): Result<T, InstanceType<C[number]>>;
+export function try$<T, const C extends readonly ErrorClass[]>(
+  fn: Promise<T> | (() => Promise<T>),
+  options: { catch: C; mapError?: undefined },
+): Promise<Result<T, InstanceType<C[number]>>>;
+export function try$<T, const C extends readonly ErrorClass[]>(
+  fn: () => T,
+  options: { catch: C; mapError?: undefined },
+): Result<T, InstanceType<C[number]>>;
+export function try$<const T extends Primitive, E>(
+  fn: () => T,
+  options: TryOptions<E> & { mapError: (error: unknown) => E },
+): Result<T, E>;
+export function try$<T, E>(
+  fn: Promise<T> | (() => Promise<T>),
+  options: TryOptions<E> & { mapError: (error: unknown) => E },
+): Promise<Result<T, E>>;
+export function try$<T, E>(
+  fn: () => T,
+  options: TryOptions<E> & { mapError: (error: unknown) => E },
+): Result<T, E>;
 export function try$<const T extends Primitive, E>(fn: () => T): Result<T, E>;
 export function try$<T, E>(fn: Promise<T>): Promise<Result<T, E>>;
 export function try$<T, E>(fn: () => Promise<T>): Promise<Result<T, E>>;
 export function try$<T, E>(fn: () => T): Result<T, E>;
 export function try$<T, E>(
   fn: Promise<T> | (() => T | Promise<T>),
+  options?: TryOptions<E>,
 ): Promise<Result<T, E>> | Result<T, E> {
+  const onError = (e: unknown): Err<E> => {
+    if (options?.catch && !options.catch.some((x) => e instanceof x)) {
+      throw e;
+    }
+
+    return err(options?.mapError ? options.mapError(e) : (e as E));
+  };
+
   if (isPromise(fn)) {
-    return fn.then(ok).catch(err) as Promise<Result<T, E>>;
+    return fn.then(ok, onError) as Promise<Result<T, E>>;
   }
 
   try {
     const res = fn();
 
     if (isPromise(res)) {
-      return try$(res);
+      return try$(res, options as TryOptions<E> & { mapError: () => E });
     }
 
     return ok(res);
   } catch (e) {
-    return err(e as E);
+    return onError(e);
   }
 }
+
+/**
+ * Turn any thrown value into an `Error`.
+ *
+ * Errors are returned as they are.
+ * Anything else is wrapped in a new `Error`, with the original value kept as the `cause`.
+ *
+ * Useful as the `mapError` option of {@link try$}.
+ *
+ * @example
+ * ```ts
+ * toError(new TypeError("error")); // the same TypeError
+ * toError("error"); // Error("error", { cause: "error" })
+ * toError({ code: 42 }); // Error('{"code":42}', { cause: { code: 42 } })
+ * ```
+ *
+ * @see {@link try$}
+ */
+export function toError(value: unknown): Error {
+  if (value instanceof Error) {
+    return value;
+  }
+
+  return new Error(stringify(value), { cause: value });
+}
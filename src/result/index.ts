@@ -1,2 +1,22 @@
+export * from "./adapters";
+export * from "./assert";
+export * from "./chain";
+export * from "./collection";
+export * from "./combinators";
+export * from "./context";
+export * from "./fetch";
+export * as debug from "./debug";
+export * as fp from "./fp";
+export * from "./gen";
 export * from "./impl";
+export * from "./iterable";
+export * from "./limit";
+export * from "./match";
+export * from "./pipe";
+export * from "./retry";
+export * from "./serialize";
+export * from "./tagged";
+export * from "./try-async";
 export * from "./types";
+export * from "./validate";
+export * from "./validate-all";
@@ -0,0 +1,37 @@
+import { describe, expectTypeOf, it } from "vitest";
+import { collect, mapEach, partitionAsync, tryEach } from "./iterable";
+import type { Result } from "./types";
+
+declare const source: AsyncIterable<Result<number, "error">>;
+
+describe("mapEach", () => {
+  it("should map the data type and keep the error type", () => {
+    expectTypeOf(mapEach(source, async (x) => `${x}`)).toEqualTypeOf<
+      AsyncGenerator<Result<string, "error">, void, undefined>
+    >();
+  });
+});
+
+describe("collect", () => {
+  it("should collect into an array result", () => {
+    expectTypeOf(collect(source)).toEqualTypeOf<
+      Promise<Result<number[], "error">>
+    >();
+  });
+});
+
+describe("partitionAsync", () => {
+  it("should split into data and errors", () => {
+    expectTypeOf(partitionAsync(source)).toEqualTypeOf<
+      Promise<[number[], "error"[]]>
+    >();
+  });
+});
+
+describe("tryEach", () => {
+  it("should wrap the values in results", () => {
+    expectTypeOf(tryEach([1, 2])).toEqualTypeOf<
+      AsyncGenerator<Result<number, unknown>, void, undefined>
+    >();
+  });
+});
@@ -0,0 +1,191 @@
+import { describe, expect, it, vi } from "vitest";
+import { err, ok } from "./impl";
+import {
+  collect,
+  mapEach,
+  partitionAsync,
+  resultTransform,
+  takeUntilErr,
+  tapErrEach,
+  tryEach,
+} from "./iterable";
+import type { Result } from "./types";
+
+async function* from<T>(items: T[]): AsyncGenerator<T, void, undefined> {
+  for (const item of items) {
+    yield item;
+  }
+}
+
+async function toArray<T>(source: AsyncIterable<T>): Promise<T[]> {
+  const items: T[] = [];
+
+  for await (const item of source) {
+    items.push(item);
+  }
+
+  return items;
+}
+
+const thrown = "error";
+const results = (): Result<number, string>[] => [ok(1), err("error"), ok(2)];
+
+describe("mapEach", () => {
+  it("should map the data of every ok", async () => {
+    await expect(
+      toArray(mapEach(from(results()), (x) => x * 2)),
+    ).resolves.toStrictEqual([ok(2), err("error"), ok(4)]);
+  });
+
+  it("should wait for async callbacks", async () => {
+    await expect(
+      toArray(mapEach(results(), async (x) => x * 2)),
+    ).resolves.toStrictEqual([ok(2), err("error"), ok(4)]);
+  });
+});
+
+describe("tapErrEach", () => {
+  it("should tap into every error", async () => {
+    const fn = vi.fn();
+
+    await expect(
+      toArray(tapErrEach(from(results()), fn)),
+    ).resolves.toStrictEqual(results());
+    expect(fn).toHaveBeenCalledExactlyOnceWith("error");
+  });
+});
+
+describe("takeUntilErr", () => {
+  it("should stop after the first err", async () => {
+    await expect(toArray(takeUntilErr(from(results())))).resolves.toStrictEqual(
+      [ok(1), err("error")],
+    );
+  });
+
+  it("should close the source", async () => {
+    const cleanup = vi.fn();
+    const source = async function* () {
+      try {
+        yield* from(results());
+      } finally {
+        cleanup();
+      }
+    };
+
+    await toArray(takeUntilErr(source()));
+
+    expect(cleanup).toHaveBeenCalledOnce();
+  });
+});
+
+describe("collect", () => {
+  it("should collect the data of every ok", async () => {
+    await expect(collect(from([ok(1), ok(2)]))).resolves.toStrictEqual(
+      ok([1, 2]),
+    );
+  });
+
+  it("should return the first err", async () => {
+    await expect(
+      collect(from([...results(), err("other")])),
+    ).resolves.toStrictEqual(err("error"));
+  });
+
+  it("should accept sync iterables of promises", async () => {
+    await expect(
+      collect([Promise.resolve(ok(1)), ok(2)]),
+    ).resolves.toStrictEqual(ok([1, 2]));
+  });
+});
+
+describe("partitionAsync", () => {
+  it("should split the oks and errs", async () => {
+    await expect(partitionAsync(from(results()))).resolves.toStrictEqual([
+      [1, 2],
+      ["error"],
+    ]);
+  });
+});
+
+describe("tryEach", () => {
+  it("should wrap every value in an ok", async () => {
+    await expect(toArray(tryEach(from([1, 2])))).resolves.toStrictEqual([
+      ok(1),
+      ok(2),
+    ]);
+  });
+
+  it("should end with an err if the iterator throws", async () => {
+    const source = async function* () {
+      yield 1;
+      throw thrown;
+    };
+
+    await expect(toArray(tryEach(source()))).resolves.toStrictEqual([
+      ok(1),
+      err("error"),
+    ]);
+  });
+});
+
+describe("resultTransform", () => {
+  const stream = <T>(items: T[]) =>
+    new ReadableStream<T>({
+      start(controller) {
+        for (const item of items) {
+          controller.enqueue(item);
+        }
+
+        controller.close();
+      },
+    });
+
+  it("should run the operator over the chunks", async () => {
+    const readable = stream(results()).pipeThrough(
+      resultTransform((source) => mapEach(source, (x) => x * 2)),
+    );
+
+    await expect(collectStream(readable)).resolves.toStrictEqual([
+      ok(2),
+      err("error"),
+      ok(4),
+    ]);
+  });
+
+  it("should terminate the stream if the operator stops early", async () => {
+    const readable = stream(results()).pipeThrough(
+      resultTransform(takeUntilErr),
+    );
+
+    await expect(collectStream(readable)).resolves.toStrictEqual([
+      ok(1),
+      err("error"),
+    ]);
+  });
+
+  it("should error the stream if the operator throws", async () => {
+    const readable = stream([1, 2]).pipeThrough(
+      // biome-ignore lint/correctness/useYield: The operator fails before yielding
+      resultTransform(async function* () {
+        throw thrown;
+      }),
+    );
+
+    await expect(collectStream(readable)).rejects.toBe("error");
+  });
+});
+
+async function collectStream<T>(readable: ReadableStream<T>): Promise<T[]> {
+  const reader = readable.getReader();
+  const items: T[] = [];
+
+  while (true) {
+    const next = await reader.read();
+
+    if (next.done) {
+      return items;
+    }
+
+    items.push(next.value);
+  }
+}
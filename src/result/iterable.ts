@@ -0,0 +1,243 @@
+import { err, isErr, map, ok, tapErr } from "./impl";
+import type { Result, ResultIterable, TapFn } from "./types";
+
+/**
+ * Map the data of every result in an iterable.
+ *
+ * The results are processed one at a time, and `Err`s are passed through as they are.
+ *
+ * @example
+ * ```ts
+ * for await (const result of mapEach(readLines(path), (line) => line.trim())) {
+ *   // result is a Result<string, ReadError>
+ * }
+ * ```
+ *
+ * @see {@link map}
+ */
+export async function* mapEach<T, E, U>(
+  source: ResultIterable<T, E>,
+  fn: (data: T) => U | Promise<U>,
+): AsyncGenerator<Result<U, E>, void, undefined> {
+  for await (const result of source) {
+    yield await map(result, fn as (data: T) => U);
+  }
+}
+
+/**
+ * Tap into the error of every result in an iterable.
+ *
+ * The results are passed through as they are.
+ *
+ * @example
+ * ```ts
+ * const results = tapErrEach(fetchPages(url), (error) => console.error(error));
+ * ```
+ *
+ * @see {@link tapErr}
+ */
+export async function* tapErrEach<T, E>(
+  source: ResultIterable<T, E>,
+  fn: TapFn<E>,
+): AsyncGenerator<Result<T, E>, void, undefined> {
+  for await (const result of source) {
+    yield tapErr(result, fn);
+  }
+}
+
+/**
+ * Pass the results of an iterable through until the first `Err`.
+ *
+ * The first `Err` is still passed through, after which the source is closed.
+ *
+ * @example
+ * ```ts
+ * const results = takeUntilErr([ok(1), err("error"), ok(2)]);
+ * // results yields ok(1) and err("error")
+ * ```
+ *
+ * @see {@link collect}
+ */
+export async function* takeUntilErr<T, E>(
+  source: ResultIterable<T, E>,
+): AsyncGenerator<Result<T, E>, void, undefined> {
+  for await (const result of source) {
+    yield result;
+
+    if (!result.ok) {
+      return;
+    }
+  }
+}
+
+/**
+ * Collect the data of every result in an iterable into a single result.
+ *
+ * Stops at the first `Err` (closing the source), and returns it.
+ *
+ * @example
+ * ```ts
+ * const result = await collect(mapEach(fetchPages(url), (page) => page.items));
+ * // result is a Result<Item[][], FetchError>
+ * ```
+ *
+ * @see {@link all}
+ * @see {@link partitionAsync}
+ */
+export async function collect<T, E>(
+  source: ResultIterable<T, E>,
+): Promise<Result<T[], E>> {
+  const data: T[] = [];
+
+  for await (const result of source) {
+    if (!result.ok) {
+      return result;
+    }
+
+    data.push(result.data);
+  }
+
+  return ok(data);
+}
+
+/**
+ * Split the results of an iterable into the data of the `Ok`s and the errors of the `Err`s.
+ *
+ * Unlike {@link collect}, the whole source is consumed.
+ *
+ * @example
+ * ```ts
+ * const [rows, errors] = await partitionAsync(mapEach(readLines(path), parseRow));
+ * ```
+ *
+ * @see {@link partition}
+ * @see {@link collect}
+ */
+export async function partitionAsync<T, E>(
+  source: ResultIterable<T, E>,
+): Promise<[T[], E[]]> {
+  const oks: T[] = [];
+  const errs: E[] = [];
+
+  for await (const result of source) {
+    if (isErr(result)) {
+      errs.push(result.error);
+    } else {
+      oks.push(result.data);
+    }
+  }
+
+  return [oks, errs];
+}
+
+/**
+ * Turn an iterable that may throw into an iterable of results.
+ *
+ * Every value becomes an `Ok`.
+ * If the iterator throws, the error is yielded as an `Err`, and the iteration ends.
+ *
+ * @example
+ * ```ts
+ * for await (const result of tryEach(readline.createInterface({ input }))) {
+ *   // result is a Result<string, unknown>
+ * }
+ * ```
+ *
+ * @see {@link try$}
+ */
+export async function* tryEach<T, E = unknown>(
+  source: AsyncIterable<T> | Iterable<T>,
+): AsyncGenerator<Result<T, E>, void, undefined> {
+  try {
+    for await (const value of source) {
+      yield ok(value);
+    }
+  } catch (e) {
+    yield err(e as E);
+  }
+}
+
+async function* readStream<T>(
+  readable: ReadableStream<T>,
+): AsyncGenerator<T, void, undefined> {
+  const reader = readable.getReader();
+  let finished = false;
+
+  try {
+    while (true) {
+      const next = await reader.read();
+
+      if (next.done) {
+        finished = true;
+        return;
+      }
+
+      yield next.value;
+    }
+  } finally {
+    if (!finished) {
+      await reader.cancel();
+    }
+  }
+}
+
+/**
+ * Create a `TransformStream` that runs an iterable operator over the chunks of a Web Stream.
+ *
+ * The operator gets the incoming chunks as an async iterable,
+ * and whatever it yields is passed on to the readable side.
+ *
+ * If the operator stops early (like {@link takeUntilErr}), the stream is terminated.
+ *
+ * @example
+ * ```ts
+ * const lines = readable
+ *   .pipeThrough(resultTransform((source) => tryEach(source)))
+ *   .pipeThrough(resultTransform((source) => mapEach(source, parseRow)))
+ *   .pipeThrough(resultTransform(takeUntilErr));
+ * ```
+ *
+ * @see {@link mapEach}
+ */
+export function resultTransform<I, O>(
+  operator: (source: AsyncIterable<I>) => AsyncIterable<O>,
+): TransformStream<I, O> {
+  const input = new TransformStream<I, I>();
+  const writer = input.writable.getWriter();
+  let done = false;
+  let pump: Promise<void> | undefined;
+
+  return new TransformStream<I, O>({
+    start(controller) {
+      pump = (async () => {
+        try {
+          for await (const chunk of operator(readStream(input.readable))) {
+            controller.enqueue(chunk);
+          }
+
+          if (!done) {
+            done = true;
+            controller.terminate();
+          }
+        } catch (e) {
+          done = true;
+          controller.error(e);
+        }
+      })();
+    },
+    async transform(chunk) {
+      if (!done) {
+        // The write fails if the operator stopped early and cancelled the input
+        await writer.write(chunk).catch(() => undefined);
+      }
+    },
+    async flush() {
+      if (!done) {
+        done = true;
+        await writer.close();
+      }
+
+      await pump;
+    },
+  });
+}
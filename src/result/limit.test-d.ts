@@ -0,0 +1,27 @@
+import { describe, expectTypeOf, it } from "vitest";
+import { type SkippedError, allLimit } from "./limit";
+import type { Result } from "./types";
+
+declare function findUser(
+  id: string,
+): Promise<Result<{ id: string }, "not found">>;
+
+describe("allLimit", () => {
+  it("should add the skipped error to the results", () => {
+    expectTypeOf(
+      allLimit(["a", "b"].map((id) => () => findUser(id))),
+    ).toEqualTypeOf<
+      Promise<Result<{ id: string }, "not found" | SkippedError>[]>
+    >();
+  });
+
+  it("should type the progress result", () => {
+    allLimit([() => findUser("a")], {
+      onProgress: ({ result }) => {
+        expectTypeOf(result).toEqualTypeOf<
+          Result<{ id: string }, "not found">
+        >();
+      },
+    });
+  });
+});
@@ -0,0 +1,148 @@
+import { describe, expect, it, vi } from "vitest";
+import { err, ok, unwrapErr } from "./impl";
+import { SkippedError, allLimit } from "./limit";
+import type { Err, Result } from "./types";
+
+function deferred<T>() {
+  let resolve!: (value: T) => void;
+  const promise = new Promise<T>((res) => {
+    resolve = res;
+  });
+
+  return { promise, resolve };
+}
+
+describe("allLimit", () => {
+  it("should return the results in input order", async () => {
+    const delays = [30, 10, 20];
+
+    await expect(
+      allLimit(
+        delays.map(
+          (ms, i) => () =>
+            new Promise<Result<number, never>>((resolve) =>
+              setTimeout(() => resolve(ok(i)), ms),
+            ),
+        ),
+        { concurrency: 2 },
+      ),
+    ).resolves.toStrictEqual([ok(0), ok(1), ok(2)]);
+  });
+
+  it("should not run more tasks than the concurrency at the same time", async () => {
+    let running = 0;
+    let maxRunning = 0;
+    const task = async () => {
+      running++;
+      maxRunning = Math.max(maxRunning, running);
+      await new Promise((resolve) => setTimeout(resolve, 1));
+      running--;
+
+      return ok(running);
+    };
+
+    await allLimit(
+      Array.from({ length: 10 }, () => task),
+      { concurrency: 3 },
+    );
+
+    expect(maxRunning).toBe(3);
+  });
+
+  it("should keep going after an err by default", async () => {
+    await expect(
+      allLimit([() => ok(1), () => err("error"), () => ok(3)], {
+        concurrency: 1,
+      }),
+    ).resolves.toStrictEqual([ok(1), err("error"), ok(3)]);
+  });
+
+  it("should catch thrown errors", async () => {
+    const error = new Error("error");
+
+    await expect(
+      allLimit([
+        () => {
+          throw error;
+        },
+        async () => {
+          throw error;
+        },
+      ]),
+    ).resolves.toStrictEqual([err(error), err(error)]);
+  });
+
+  it("should skip the remaining tasks after an err with stopOnErr", async () => {
+    const last = vi.fn(() => ok(3));
+    const results = await allLimit([() => ok(1), () => err("error"), last], {
+      concurrency: 1,
+      stopOnErr: true,
+    });
+
+    expect(results.slice(0, 2)).toStrictEqual([ok(1), err("error")]);
+    expect(last).not.toHaveBeenCalled();
+
+    const error = unwrapErr(results[2] as Err<SkippedError>);
+
+    expect(error).toBeInstanceOf(SkippedError);
+    expect(error.index).toBe(2);
+    expect(error.reason).toBe("stopped");
+  });
+
+  it("should stop starting tasks when the signal is aborted", async () => {
+    const controller = new AbortController();
+    const first = deferred<ReturnType<typeof ok<number>>>();
+    const task = vi.fn(() => ok(2));
+    const results = allLimit(
+      [
+        ({ signal }) => {
+          expect(signal).toBe(controller.signal);
+
+          return first.promise;
+        },
+        task,
+      ],
+      { concurrency: 1, signal: controller.signal },
+    );
+
+    controller.abort();
+    first.resolve(ok(1));
+
+    const [a, b] = await results;
+
+    expect(a).toStrictEqual(ok(1));
+    expect(task).not.toHaveBeenCalled();
+    expect(unwrapErr(b as Err<SkippedError>).reason).toBe("aborted");
+  });
+
+  it("should report the progress", async () => {
+    const onProgress = vi.fn();
+
+    await allLimit([() => ok(1), () => err("error")], {
+      concurrency: 1,
+      onProgress,
+    });
+
+    expect(onProgress.mock.calls).toStrictEqual([
+      [{ index: 0, result: ok(1), completed: 1, total: 2 }],
+      [{ index: 1, result: err("error"), completed: 2, total: 2 }],
+    ]);
+  });
+
+  it("should pass the index to the tasks", async () => {
+    await expect(
+      allLimit([({ index }) => ok(index), ({ index }) => ok(index)]),
+    ).resolves.toStrictEqual([ok(0), ok(1)]);
+  });
+
+  it("should return an empty array for no tasks", async () => {
+    await expect(allLimit([])).resolves.toStrictEqual([]);
+  });
+
+  it.each([0, -1, Number.NaN])(
+    "should reject a concurrency of %p",
+    async (concurrency) => {
+      await expect(allLimit([], { concurrency })).rejects.toThrow(RangeError);
+    },
+  );
+});
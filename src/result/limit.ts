@@ -0,0 +1,133 @@
+import { err } from "./impl";
+import { defineError } from "./tagged";
+import type {
+  AnyResult,
+  LimitOptions,
+  LimitTask,
+  LimitTaskResult,
+  Result,
+  ResultError,
+  ResultValue,
+} from "./types";
+
+/**
+ * The error {@link allLimit} returns for tasks that were never started.
+ *
+ * The `reason` says why the task was skipped:
+ * - `"stopped"` when an earlier task returned an `Err` with `stopOnErr`
+ * - `"aborted"` when the signal was aborted
+ */
+export class SkippedError extends defineError("SkippedError")<{
+  message: string;
+  index: number;
+  reason: "stopped" | "aborted";
+}>() {}
+
+/**
+ * Run result-returning tasks with a limit on how many run at the same time.
+ *
+ * The results are returned in the same order as the tasks.
+ * Tasks that throw (or reject) are returned as an `Err`, just like {@link try$}.
+ *
+ * With `stopOnErr`, no new tasks are started after the first `Err`.
+ * When the signal is aborted, no new tasks are started either.
+ * In both cases the tasks that never ran get an `Err` with a {@link SkippedError}.
+ * Tasks that are already running are still waited for, and can use the signal to stop early.
+ *
+ * @example
+ * ```ts
+ * const results = await allLimit(
+ *   ids.map((id) => () => try$(db.users.find(id))),
+ *   {
+ *     concurrency: 5,
+ *     onProgress: ({ completed, total }) => console.log(`${completed}/${total}`),
+ *   },
+ * );
+ * // results is a Result<User, unknown | SkippedError>[]
+ * ```
+ *
+ * @see {@link all}
+ */
+export async function allLimit<const F extends readonly LimitTask[]>(
+  tasks: F,
+  options: LimitOptions<LimitTaskResult<F>> = {},
+): Promise<
+  Result<
+    ResultValue<LimitTaskResult<F>>,
+    ResultError<LimitTaskResult<F>> | SkippedError
+  >[]
+> {
+  const {
+    concurrency = Number.POSITIVE_INFINITY,
+    stopOnErr = false,
+    signal,
+    onProgress,
+  } = options;
+
+  if (!(concurrency >= 1)) {
+    throw new RangeError(
+      `The concurrency must be at least 1, got ${concurrency}`,
+    );
+  }
+
+  const results: AnyResult[] = [];
+  let next = 0;
+  let completed = 0;
+  let stopped = false;
+
+  const worker = async () => {
+    while (next < tasks.length && !stopped && !signal?.aborted) {
+      const index = next++;
+      const task = tasks[index] as LimitTask;
+      let result: AnyResult;
+
+      try {
+        result = await task({ index, signal });
+      } catch (e) {
+        result = err(e);
+      }
+
+      results[index] = result;
+      completed++;
+
+      if (stopOnErr && !result.ok) {
+        stopped = true;
+      }
+
+      onProgress?.({
+        index,
+        result: result as LimitTaskResult<F>,
+        completed,
+        total: tasks.length,
+      });
+    }
+  };
+
+  await Promise.all(
+    Array.from({ length: Math.min(concurrency, tasks.length) }, worker),
+  );
+
+  for (let index = 0; index < tasks.length; index++) {
+    if (results[index]) {
+      continue;
+    }
+
+    const reason = signal?.aborted ? "aborted" : "stopped";
+
+    results[index] = err(
+      new SkippedError({
+        message:
+          reason === "aborted"
+            ? `Task ${index} was skipped because the signal was aborted`
+            : `Task ${index} was skipped after an earlier task failed`,
+        index,
+        reason,
+      }),
+    );
+  }
+
+  return results as Result<
+    ResultValue<LimitTaskResult<F>>,
+    ResultError<LimitTaskResult<F>> | SkippedError
+  >[];
+}
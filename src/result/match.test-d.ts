@@ -0,0 +1,59 @@
+import { describe, expectTypeOf, it } from "vitest";
+import { match, matchErr } from "./match";
+import type { Result } from "./types";
+
+type Error =
+  | { kind: "not-found"; id: string }
+  | { kind: "timeout"; ms: number };
+
+declare const result: Result<number, Error>;
+
+describe("match", () => {
+  it("should return the union of the handler return types", () => {
+    expectTypeOf(
+      match(result, { ok: (x) => x + 1, err: (e) => e.kind }),
+    ).toEqualTypeOf<number | "not-found" | "timeout">();
+  });
+
+  it("should return a promise for promise results", () => {
+    expectTypeOf(
+      match(Promise.resolve(result), {
+        ok: async () => 1,
+        err: () => "error",
+      }),
+    ).toEqualTypeOf<Promise<number | string>>();
+  });
+});
+
+describe("matchErr", () => {
+  it("should narrow the error in every handler", () => {
+    expectTypeOf(
+      matchErr(result, "kind", {
+        ok: () => null,
+        err: {
+          "not-found": (e) => {
+            expectTypeOf(e).toEqualTypeOf<{ kind: "not-found"; id: string }>();
+
+            return e.id;
+          },
+          timeout: (e) => e.ms,
+        },
+      }),
+    ).toEqualTypeOf<null | string | number>();
+  });
+
+  it("should require every case to be handled", () => {
+    // @ts-expect-error The timeout case is not handled
+    matchErr(result, "kind", {
+      ok: () => null,
+      err: {
+        "not-found": () => null,
+      },
+    });
+  });
+
+  it("should only allow keys of the error", () => {
+    // @ts-expect-error The key is not a field of the error
+    matchErr(result, "code", { ok: () => null, err: {} });
+  });
+});
@@ -0,0 +1,78 @@
+import { describe, expect, it, vi } from "vitest";
+import { err, ok } from "./impl";
+import { match, matchErr } from "./match";
+import type { Result } from "./types";
+
+describe("match", () => {
+  it("should call the ok handler for oks", () => {
+    const errFn = vi.fn();
+
+    expect(match(ok(1), { ok: (x) => x + 1, err: errFn })).toBe(2);
+    expect(errFn).not.toHaveBeenCalled();
+  });
+
+  it("should call the err handler for errs", () => {
+    const okFn = vi.fn();
+
+    expect(match(err("error"), { ok: okFn, err: (x) => `${x}!` })).toBe(
+      "error!",
+    );
+    expect(okFn).not.toHaveBeenCalled();
+  });
+
+  it("should work with promises and async handlers", async () => {
+    await expect(
+      match(Promise.resolve(ok(1)), { ok: async (x) => x + 1, err: vi.fn() }),
+    ).resolves.toBe(2);
+    await expect(
+      match(Promise.resolve(err(1)), { ok: vi.fn(), err: (x) => x - 1 }),
+    ).resolves.toBe(0);
+  });
+});
+
+describe("matchErr", () => {
+  type Error =
+    | { kind: "not-found"; id: string }
+    | { kind: "timeout"; ms: number };
+
+  const handlers = {
+    ok: (x: number) => `ok ${x}`,
+    err: {
+      "not-found": (e: { id: string }) => `not found ${e.id}`,
+      timeout: (e: { ms: number }) => `timeout ${e.ms}`,
+    },
+  };
+
+  it("should call the ok handler for oks", () => {
+    const result = ok(1) as Result<number, Error>;
+
+    expect(matchErr(result, "kind", handlers)).toBe("ok 1");
+  });
+
+  it("should call the handler for the error discriminant", () => {
+    const notFound = err({ kind: "not-found", id: "a" }) as Result<
+      number,
+      Error
+    >;
+    const timeout = err({ kind: "timeout", ms: 10 }) as Result<number, Error>;
+
+    expect(matchErr(notFound, "kind", handlers)).toBe("not found a");
+    expect(matchErr(timeout, "kind", handlers)).toBe("timeout 10");
+  });
+
+  it("should work with promises", async () => {
+    const result: Promise<Result<number, Error>> = Promise.resolve(
+      err({ kind: "timeout", ms: 10 }),
+    );
+
+    await expect(matchErr(result, "kind", handlers)).resolves.toBe(
+      "timeout 10",
+    );
+  });
+
+  it("should throw for unknown discriminants", () => {
+    const result = err({ kind: "unknown" }) as unknown as Result<number, Error>;
+
+    expect(() => matchErr(result, "kind", handlers)).toThrow(TypeError);
+  });
+});
@@ -0,0 +1,137 @@
+import { isPromise } from "../helpers";
+import { isOk } from "./impl";
+import type {
+  MatchErrHandlers,
+  MatchHandlers,
+  MaybePromise,
+  Result,
+} from "./types";
+
+/**
+ * Handle both variants of a result and return the value of the matching handler.
+ *
+ * The return type is the union of the return types of both handlers.
+ *
+ * @example
+ * ```ts
+ * const message = match(result, {
+ *   ok: (data) => `Got ${data}`,
+ *   err: (error) => `Failed with ${error}`,
+ * });
+ * ```
+ * @example
+ * ```ts
+ * const message: Promise<string> = match(Promise.resolve(result), {
+ *   ok: async (data) => `Got ${data}`,
+ *   err: (error) => `Failed with ${error}`,
+ * });
+ * ```
+ *
+ * @see {@link matchErr}
+ */
+export function match<T, E, A, B>(
+  result: Promise<Result<T, E>>,
+  handlers: MatchHandlers<T, E, A, B>,
+): Promise<Awaited<A | B>>;
+export function match<T, E, A, B>(
+  result: Result<T, E>,
+  handlers: MatchHandlers<T, E, A, B>,
+): A | B;
+export function match<T, E, A, B>(
+  result: MaybePromise<Result<T, E>>,
+  handlers: MatchHandlers<T, E, A, B>,
+): A | B | Promise<Awaited<A | B>> {
+  if (isPromise(result)) {
+    return result.then((x) => match(x, handlers)) as Promise<Awaited<A | B>>;
+  }
+
+  if (isOk(result)) {
+    return handlers.ok(result.data);
+  }
+
+  return handlers.err(result.error);
+}
+
+/**
+ * Handle both variants of a result, dispatching errors on a discriminant field.
+ *
+ * Every possible value of the `key` field of the error must have a handler,
+ * otherwise it's a compile error.
+ *
+ * The return type is the union of the return types of all the handlers.
+ *
+ * @example
+ * ```ts
+ * type Error = { kind: "not-found"; id: string } | { kind: "timeout"; ms: number };
+ * declare const result: Result<User, Error>;
+ *
+ * const message = matchErr(result, "kind", {
+ *   ok: (user) => `Hello ${user.name}`,
+ *   err: {
+ *     "not-found": (error) => `No user ${error.id}`,
+ *     timeout: (error) => `Timed out after ${error.ms}ms`,
+ *   },
+ * });
+ * ```
+ * @example
+ * ```ts
+ * const status = matchErr(getUser(id), "_tag", {
+ *   ok: () => 200,
+ *   err: {
+ *     NotFound: () => 404,
+ *     Timeout: () => 504,
+ *   },
+ * });
+ * ```
+ *
+ * @see {@link match}
+ */
+export function matchErr<
+  T,
+  E,
+  const Key extends keyof E,
+  A,
+  const H extends MatchErrHandlers<E, Key>,
+>(
+  result: Promise<Result<T, E>>,
+  key: Key,
+  handlers: { ok: (data: T) => A; err: H },
+): Promise<Awaited<A | ReturnType<H[keyof H]>>>;
+export function matchErr<
+  T,
+  E,
+  const Key extends keyof E,
+  A,
+  const H extends MatchErrHandlers<E, Key>,
+>(
+  result: Result<T, E>,
+  key: Key,
+  handlers: { ok: (data: T) => A; err: H },
+): A | ReturnType<H[keyof H]>;
+export function matchErr<T, E>(
+  result: MaybePromise<Result<T, E>>,
+  key: keyof E,
+  handlers: {
+    ok: (data: T) => unknown;
+    err: Record<PropertyKey, (error: E) => unknown>;
+  },
+): unknown {
+  if (isPromise(result)) {
+    return result.then((x) => matchErr(x, key as never, handlers as never));
+  }
+
+  if (isOk(result)) {
+    return handlers.ok(result.data);
+  }
+
+  const discriminant = result.error[key] as PropertyKey;
+  const handler = Object.hasOwn(handlers.err, discriminant)
+    ? handlers.err[discriminant]
+    : undefined;
+
+  if (!handler) {
+    throw new TypeError(`No handler for error ${String(discriminant)}`);
+  }
+
+  return handler(result.error);
+}
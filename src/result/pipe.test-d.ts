@@ -0,0 +1,131 @@
+import { describe, expectTypeOf, it } from "vitest";
+import type { ContextError } from "./context";
+import * as fp from "./fp";
+import { ok } from "./impl";
+import { flow, pipe } from "./pipe";
+import { defineError } from "./tagged";
+import type { Result } from "./types";
+
+declare const result: Result<number, "error">;
+declare function fetchUser(
+  id: string,
+): Promise<Result<{ name: string }, "not found">>;
+const inc = (x: number) => x + 1;
+
+class NotFoundError extends defineError("NotFound")<{ id: string }>() {}
+class TimeoutError extends defineError("Timeout")<{ ms: number }>() {}
+declare const tagged: Result<number, NotFoundError | TimeoutError>;
+
+describe("pipe", () => {
+  it("should infer the types of the fp operators", () => {
+    expectTypeOf(
+      pipe(
+        result,
+        fp.map((x) => `${x}`),
+        fp.tryMap((x) => ({}) as Result<boolean, "invalid">),
+        fp.context("while testing"),
+      ),
+    ).toEqualTypeOf<Result<boolean, ContextError<"error" | "invalid">>>();
+  });
+
+  it("should infer the error types of the recovering operators", () => {
+    expectTypeOf(
+      pipe(
+        tagged,
+        fp.catchTag("NotFound", (error) => ok(error.id)),
+        fp.ensure(
+          (x): x is number => typeof x === "number",
+          () => "not a number" as const,
+        ),
+      ),
+    ).toEqualTypeOf<Result<number, TimeoutError | "not a number">>();
+    expectTypeOf(
+      pipe(
+        tagged,
+        fp.recover(
+          (error): error is TimeoutError => error instanceof TimeoutError,
+          (error) => error.ms,
+        ),
+        fp.orElse((error) => ok(error.id)),
+      ),
+    ).toEqualTypeOf<Result<number | string, never>>();
+  });
+
+  it("should infer the handlers of matchErr and catchTags", () => {
+    expectTypeOf(
+      pipe(
+        tagged,
+        fp.matchErr("_tag", {
+          ok: (x) => x,
+          err: { NotFound: (error) => error.id, Timeout: (error) => error.ms },
+        }),
+      ),
+    ).toEqualTypeOf<number | string>();
+    expectTypeOf(
+      pipe(tagged, fp.catchTags({ Timeout: (error) => ok(error.ms) }), fp.swap),
+    ).toEqualTypeOf<Result<NotFoundError, number>>();
+  });
+
+  it("should return a promise after an async step", () => {
+    expectTypeOf(
+      pipe(
+        "42",
+        fetchUser,
+        fp.map((user) => user.name),
+        fp.unwrapOr(null),
+      ),
+    ).toEqualTypeOf<Promise<string | null>>();
+    expectTypeOf(
+      pipe(
+        result,
+        fp.map(async (x) => x > 1),
+        fp.unwrapEither,
+      ),
+    ).toEqualTypeOf<Promise<boolean | "error">>();
+  });
+
+  it("should infer the types across 20 steps", () => {
+    expectTypeOf(
+      pipe(
+        0,
+        inc,
+        inc,
+        inc,
+        inc,
+        inc,
+        inc,
+        inc,
+        inc,
+        inc,
+        inc,
+        inc,
+        inc,
+        inc,
+        inc,
+        inc,
+        inc,
+        inc,
+        inc,
+        async (x) => inc(x),
+        (x) => `${x}`,
+      ),
+    ).toEqualTypeOf<Promise<string>>();
+  });
+});
+
+describe("flow", () => {
+  it("should keep the parameters of the first function", () => {
+    expectTypeOf(
+      flow(
+        fetchUser,
+        fp.map((user) => user.name),
+      ),
+    ).toEqualTypeOf<(id: string) => Promise<Result<string, "not found">>>();
+  });
+
+  it("should stay synchronous without async steps", () => {
+    expectTypeOf(flow((a: number, b: number) => a + b, String)).toEqualTypeOf<
+      (a: number, b: number) => string
+    >();
+  });
+});
@@ -0,0 +1,77 @@
+import { describe, expect, it, vi } from "vitest";
+import * as fp from "./fp";
+import { err, ok } from "./impl";
+import { flow, pipe } from "./pipe";
+import type { Result } from "./types";
+
+const inc = (x: number) => x + 1;
+
+describe("pipe", () => {
+  it("should return the value without steps", () => {
+    expect(pipe(1)).toBe(1);
+  });
+
+  it("should pass the value through the steps in order", () => {
+    expect(
+      pipe(
+        "1",
+        Number,
+        inc,
+        (x) => x * 10,
+        (x) => `${x}`,
+      ),
+    ).toBe("20");
+  });
+
+  it("should work with the fp operators", () => {
+    expect(
+      pipe(
+        ok(1) as Result<number, string>,
+        fp.map(inc),
+        fp.tryMap((x) => (x > 1 ? err("too big") : ok(x))),
+        fp.mapErr((e) => e.toUpperCase()),
+        fp.unwrapEither,
+      ),
+    ).toBe("TOO BIG");
+  });
+
+  it("should switch to a promise after an async step", async () => {
+    const after = vi.fn(inc);
+    const result = pipe(1, async (x) => x + 1, after, inc);
+
+    expect(result).toBeInstanceOf(Promise);
+    expect(after).not.toHaveBeenCalled();
+    await expect(result).resolves.toBe(4);
+    expect(after).toHaveBeenCalledExactlyOnceWith(2);
+  });
+
+  it("should resolve a promise value before the first step", async () => {
+    await expect(
+      pipe(Promise.resolve(ok(1)), fp.map(inc), fp.unwrapOr(0)),
+    ).resolves.toBe(2);
+  });
+
+  it("should reject if a step throws after switching to a promise", async () => {
+    const error = new Error("error");
+
+    await expect(
+      pipe(Promise.resolve(1), () => {
+        throw error;
+      }),
+    ).rejects.toBe(error);
+  });
+});
+
+describe("flow", () => {
+  it("should compose the functions", () => {
+    const fn = flow((a: number, b: number) => a + b, inc, String);
+
+    expect(fn(1, 2)).toBe("4");
+  });
+
+  it("should switch to a promise after an async step", async () => {
+    const fn = flow(async (x: number) => ok(x), fp.map(inc), fp.unwrapOr(0));
+
+    await expect(fn(1)).resolves.toBe(2);
+  });
+});
@@ -0,0 +1,818 @@
+import { isPromise } from "../helpers";
+
+/**
+ * @internal
+ * The return type of a pipeline.
+ *
+ * It is a promise as soon as any of the steps returns a promise.
+ */
+type PipeReturn<Steps extends unknown[], R> = [
+  Extract<Steps[number], PromiseLike<unknown>>,
+] extends [never]
+  ? R
+  : Promise<Awaited<R>>;
+
+type Step = (value: unknown) => unknown;
+
+function run(value: unknown, steps: Step[]): unknown {
+  return steps.reduce(
+    (acc, step) => (isPromise(acc) ? acc.then(step) : step(acc)),
+    value,
+  );
+}
+
+/**
+ * Pass a value through a list of functions, from left to right.
+ *
+ * Each function gets the return value of the previous one.
+ * As soon as a function returns a promise (or the value is a promise),
+ * the following functions get the resolved value, and the pipeline returns a promise.
+ *
+ * Works well with the data-last operators in {@link fp}.
+ *
+ * Steps that only sometimes return a promise make the return type a promise, so always `await` them.
+ *
+ * @example
+ * ```ts
+ * const value = pipe(
+ *   ok(1),
+ *   fp.map((x) => x + 1),
+ *   fp.tapErr((error) => console.error(error)),
+ *   fp.unwrapOr(0),
+ * ); // 2
+ * ```
+ * @example
+ * ```ts
+ * const user = await pipe(
+ *   id,
+ *   fetchUser, // (id: string) => Promise<Result<User, FetchError>>
+ *   fp.map((user) => user.name),
+ * );
+ * // user is a Result<string, FetchError>
+ * ```
+ *
+ * @see {@link flow}
+ */
+export function pipe<A>(value: A): A;
+export function pipe<A, B>(
+  value: A,
+  ab: (a: Awaited<A>) => B,
+): PipeReturn<[A], B>;
+export function pipe<A, B, C>(
+  value: A,
+  ab: (a: Awaited<A>) => B,
+  bc: (b: Awaited<B>) => C,
+): PipeReturn<[A, B], C>;
+export function pipe<A, B, C, D>(
+  value: A,
+  ab: (a: Awaited<A>) => B,
+  bc: (b: Awaited<B>) => C,
+  cd: (c: Awaited<C>) => D,
+): PipeReturn<[A, B, C], D>;
+export function pipe<A, B, C, D, E>(
+  value: A,
+  ab: (a: Awaited<A>) => B,
+  bc: (b: Awaited<B>) => C,
+  cd: (c: Awaited<C>) => D,
+  de: (d: Awaited<D>) => E,
+): PipeReturn<[A, B, C, D], E>;
+export function pipe<A, B, C, D, E, F>(
+  value: A,
+  ab: (a: Awaited<A>) => B,
+  bc: (b: Awaited<B>) => C,
+  cd: (c: Awaited<C>) => D,
+  de: (d: Awaited<D>) => E,
+  ef: (e: Awaited<E>) => F,
+): PipeReturn<[A, B, C, D, E], F>;
+export function pipe<A, B, C, D, E, F, G>(
+  value: A,
+  ab: (a: Awaited<A>) => B,
+  bc: (b: Awaited<B>) => C,
+  cd: (c: Awaited<C>) => D,
+  de: (d: Awaited<D>) => E,
+  ef: (e: Awaited<E>) => F,
+  fg: (f: Awaited<F>) => G,
+): PipeReturn<[A, B, C, D, E, F], G>;
+export function pipe<A, B, C, D, E, F, G, H>(
+  value: A,
+  ab: (a: Awaited<A>) => B,
+  bc: (b: Awaited<B>) => C,
+  cd: (c: Awaited<C>) => D,
+  de: (d: Awaited<D>) => E,
+  ef: (e: Awaited<E>) => F,
+  fg: (f: Awaited<F>) => G,
+  gh: (g: Awaited<G>) => H,
+): PipeReturn<[A, B, C, D, E, F, G], H>;
+export function pipe<A, B, C, D, E, F, G, H, I>(
+  value: A,
+  ab: (a: Awaited<A>) => B,
+  bc: (b: Awaited<B>) => C,
+  cd: (c: Awaited<C>) => D,
+  de: (d: Awaited<D>) => E,
+  ef: (e: Awaited<E>) => F,
+  fg: (f: Awaited<F>) => G,
+  gh: (g: Awaited<G>) => H,
+  hi: (h: Awaited<H>) => I,
+): PipeReturn<[A, B, C, D, E, F, G, H], I>;
+export function pipe<A, B, C, D, E, F, G, H, I, J>(
+  value: A,
+  ab: (a: Awaited<A>) => B,
+  bc: (b: Awaited<B>) => C,
+  cd: (c: Awaited<C>) => D,
+  de: (d: Awaited<D>) => E,
+  ef: (e: Awaited<E>) => F,
+  fg: (f: Awaited<F>) => G,
+  gh: (g: Awaited<G>) => H,
+  hi: (h: Awaited<H>) => I,
+  ij: (i: Awaited<I>) => J,
+): PipeReturn<[A, B, C, D, E, F, G, H, I], J>;
+export function pipe<A, B, C, D, E, F, G, H, I, J, K>(
+  value: A,
+  ab: (a: Awaited<A>) => B,
+  bc: (b: Awaited<B>) => C,
+  cd: (c: Awaited<C>) => D,
+  de: (d: Awaited<D>) => E,
+  ef: (e: Awaited<E>) => F,
+  fg: (f: Awaited<F>) => G,
+  gh: (g: Awaited<G>) => H,
+  hi: (h: Awaited<H>) => I,
+  ij: (i: Awaited<I>) => J,
+  jk: (j: Awaited<J>) => K,
+): PipeReturn<[A, B, C, D, E, F, G, H, I, J], K>;
+export function pipe<A, B, C, D, E, F, G, H, I, J, K, L>(
+  value: A,
+  ab: (a: Awaited<A>) => B,
+  bc: (b: Awaited<B>) => C,
+  cd: (c: Awaited<C>) => D,
+  de: (d: Awaited<D>) => E,
+  ef: (e: Awaited<E>) => F,
+  fg: (f: Awaited<F>) => G,
+  gh: (g: Awaited<G>) => H,
+  hi: (h: Awaited<H>) => I,
+  ij: (i: Awaited<I>) => J,
+  jk: (j: Awaited<J>) => K,
+  kl: (k: Awaited<K>) => L,
+): PipeReturn<[A, B, C, D, E, F, G, H, I, J, K], L>;
+export function pipe<A, B, C, D, E, F, G, H, I, J, K, L, M>(
+  value: A,
+  ab: (a: Awaited<A>) => B,
+  bc: (b: Awaited<B>) => C,
+  cd: (c: Awaited<C>) => D,
+  de: (d: Awaited<D>) => E,
+  ef: (e: Awaited<E>) => F,
+  fg: (f: Awaited<F>) => G,
+  gh: (g: Awaited<G>) => H,
+  hi: (h: Awaited<H>) => I,
+  ij: (i: Awaited<I>) => J,
+  jk: (j: Awaited<J>) => K,
+  kl: (k: Awaited<K>) => L,
+  lm: (l: Awaited<L>) => M,
+): PipeReturn<[A, B, C, D, E, F, G, H, I, J, K, L], M>;
+export function pipe<A, B, C, D, E, F, G, H, I, J, K, L, M, N>(
+  value: A,
+  ab: (a: Awaited<A>) => B,
+  bc: (b: Awaited<B>) => C,
+  cd: (c: Awaited<C>) => D,
+  de: (d: Awaited<D>) => E,
+  ef: (e: Awaited<E>) => F,
+  fg: (f: Awaited<F>) => G,
+  gh: (g: Awaited<G>) => H,
+  hi: (h: Awaited<H>) => I,
+  ij: (i: Awaited<I>) => J,
+  jk: (j: Awaited<J>) => K,
+  kl: (k: Awaited<K>) => L,
+  lm: (l: Awaited<L>) => M,
+  mn: (m: Awaited<M>) => N,
+): PipeReturn<[A, B, C, D, E, F, G, H, I, J, K, L, M], N>;
+export function pipe<A, B, C, D, E, F, G, H, I, J, K, L, M, N, O>(
+  value: A,
+  ab: (a: Awaited<A>) => B,
+  bc: (b: Awaited<B>) => C,
+  cd: (c: Awaited<C>) => D,
+  de: (d: Awaited<D>) => E,
+  ef: (e: Awaited<E>) => F,
+  fg: (f: Awaited<F>) => G,
+  gh: (g: Awaited<G>) => H,
+  hi: (h: Awaited<H>) => I,
+  ij: (i: Awaited<I>) => J,
+  jk: (j: Awaited<J>) => K,
+  kl: (k: Awaited<K>) => L,
+  lm: (l: Awaited<L>) => M,
+  mn: (m: Awaited<M>) => N,
+  no: (n: Awaited<N>) => O,
+): PipeReturn<[A, B, C, D, E, F, G, H, I, J, K, L, M, N], O>;
+export function pipe<A, B, C, D, E, F, G, H, I, J, K, L, M, N, O, P>(
+  value: A,
+  ab: (a: Awaited<A>) => B,
+  bc: (b: Awaited<B>) => C,
+  cd: (c: Awaited<C>) => D,
+  de: (d: Awaited<D>) => E,
+  ef: (e: Awaited<E>) => F,
+  fg: (f: Awaited<F>) => G,
+  gh: (g: Awaited<G>) => H,
+  hi: (h: Awaited<H>) => I,
+  ij: (i: Awaited<I>) => J,
+  jk: (j: Awaited<J>) => K,
+  kl: (k: Awaited<K>) => L,
+  lm: (l: Awaited<L>) => M,
+  mn: (m: Awaited<M>) => N,
+  no: (n: Awaited<N>) => O,
+  op: (o: Awaited<O>) => P,
+): PipeReturn<[A, B, C, D, E, F, G, H, I, J, K, L, M, N, O], P>;
+export function pipe<A, B, C, D, E, F, G, H, I, J, K, L, M, N, O, P, Q>(
+  value: A,
+  ab: (a: Awaited<A>) => B,
+  bc: (b: Awaited<B>) => C,
+  cd: (c: Awaited<C>) => D,
+  de: (d: Awaited<D>) => E,
+  ef: (e: Awaited<E>) => F,
+  fg: (f: Awaited<F>) => G,
+  gh: (g: Awaited<G>) => H,
+  hi: (h: Awaited<H>) => I,
+  ij: (i: Awaited<I>) => J,
+  jk: (j: Awaited<J>) => K,
+  kl: (k: Awaited<K>) => L,
+  lm: (l: Awaited<L>) => M,
+  mn: (m: Awaited<M>) => N,
+  no: (n: Awaited<N>) => O,
+  op: (o: Awaited<O>) => P,
+  pq: (p: Awaited<P>) => Q,
+): PipeReturn<[A, B, C, D, E, F, G, H, I, J, K, L, M, N, O, P], Q>;
+export function pipe<A, B, C, D, E, F, G, H, I, J, K, L, M, N, O, P, Q, R>(
+  value: A,
+  ab: (a: Awaited<A>) => B,
+  bc: (b: Awaited<B>) => C,
+  cd: (c: Awaited<C>) => D,
+  de: (d: Awaited<D>) => E,
+  ef: (e: Awaited<E>) => F,
+  fg: (f: Awaited<F>) => G,
+  gh: (g: Awaited<G>) => H,
+  hi: (h: Awaited<H>) => I,
+  ij: (i: Awaited<I>) => J,
+  jk: (j: Awaited<J>) => K,
+  kl: (k: Awaited<K>) => L,
+  lm: (l: Awaited<L>) => M,
+  mn: (m: Awaited<M>) => N,
+  no: (n: Awaited<N>) => O,
+  op: (o: Awaited<O>) => P,
+  pq: (p: Awaited<P>) => Q,
+  qr: (q: Awaited<Q>) => R,
+): PipeReturn<[A, B, C, D, E, F, G, H, I, J, K, L, M, N, O, P, Q], R>;
+export function pipe<A, B, C, D, E, F, G, H, I, J, K, L, M, N, O, P, Q, R, S>(
+  value: A,
+  ab: (a: Awaited<A>) => B,
+  bc: (b: Awaited<B>) => C,
+  cd: (c: Awaited<C>) => D,
+  de: (d: Awaited<D>) => E,
+  ef: (e: Awaited<E>) => F,
+  fg: (f: Awaited<F>) => G,
+  gh: (g: Awaited<G>) => H,
+  hi: (h: Awaited<H>) => I,
+  ij: (i: Awaited<I>) => J,
+  jk: (j: Awaited<J>) => K,
+  kl: (k: Awaited<K>) => L,
+  lm: (l: Awaited<L>) => M,
+  mn: (m: Awaited<M>) => N,
+  no: (n: Awaited<N>) => O,
+  op: (o: Awaited<O>) => P,
+  pq: (p: Awaited<P>) => Q,
+  qr: (q: Awaited<Q>) => R,
+  rs: (r: Awaited<R>) => S,
+): PipeReturn<[A, B, C, D, E, F, G, H, I, J, K, L, M, N, O, P, Q, R], S>;
+export function pipe<
+  A,
+  B,
+  C,
+  D,
+  E,
+  F,
+  G,
+  H,
+  I,
+  J,
+  K,
+  L,
+  M,
+  N,
+  O,
+  P,
+  Q,
+  R,
+  S,
+  T,
+>(
+  value: A,
+  ab: (a: Awaited<A>) => B,
+  bc: (b: Awaited<B>) => C,
+  cd: (c: Awaited<C>) => D,
+  de: (d: Awaited<D>) => E,
+  ef: (e: Awaited<E>) => F,
+  fg: (f: Awaited<F>) => G,
+  gh: (g: Awaited<G>) => H,
+  hi: (h: Awaited<H>) => I,
+  ij: (i: Awaited<I>) => J,
+  jk: (j: Awaited<J>) => K,
+  kl: (k: Awaited<K>) => L,
+  lm: (l: Awaited<L>) => M,
+  mn: (m: Awaited<M>) => N,
+  no: (n: Awaited<N>) => O,
+  op: (o: Awaited<O>) => P,
+  pq: (p: Awaited<P>) => Q,
+  qr: (q: Awaited<Q>) => R,
+  rs: (r: Awaited<R>) => S,
+  st: (s: Awaited<S>) => T,
+): PipeReturn<[A, B, C, D, E, F, G, H, I, J, K, L, M, N, O, P, Q, R, S], T>;
+export function pipe<
+  A,
+  B,
+  C,
+  D,
+  E,
+  F,
+  G,
+  H,
+  I,
+  J,
+  K,
+  L,
+  M,
+  N,
+  O,
+  P,
+  Q,
+  R,
+  S,
+  T,
+  U,
+>(
+  value: A,
+  ab: (a: Awaited<A>) => B,
+  bc: (b: Awaited<B>) => C,
+  cd: (c: Awaited<C>) => D,
+  de: (d: Awaited<D>) => E,
+  ef: (e: Awaited<E>) => F,
+  fg: (f: Awaited<F>) => G,
+  gh: (g: Awaited<G>) => H,
+  hi: (h: Awaited<H>) => I,
+  ij: (i: Awaited<I>) => J,
+  jk: (j: Awaited<J>) => K,
+  kl: (k: Awaited<K>) => L,
+  lm: (l: Awaited<L>) => M,
+  mn: (m: Awaited<M>) => N,
+  no: (n: Awaited<N>) => O,
+  op: (o: Awaited<O>) => P,
+  pq: (p: Awaited<P>) => Q,
+  qr: (q: Awaited<Q>) => R,
+  rs: (r: Awaited<R>) => S,
+  st: (s: Awaited<S>) => T,
+  tu: (t: Awaited<T>) => U,
+): PipeReturn<[A, B, C, D, E, F, G, H, I, J, K, L, M, N, O, P, Q, R, S, T], U>;
+export function pipe(value: unknown, ...steps: Step[]): unknown {
+  return run(value, steps);
+}
+
+/**
+ * Compose a list of functions into a single function, from left to right.
+ *
+ * The first function can take any arguments, and the rest work the same as in {@link pipe}.
+ *
+ * @example
+ * ```ts
+ * const getName = flow(
+ *   fetchUser, // (id: string) => Promise<Result<User, FetchError>>
+ *   fp.map((user) => user.name),
+ *   fp.unwrapOr("anonymous"),
+ * );
+ * const name = await getName("42");
+ * ```
+ *
+ * @see {@link pipe}
+ */
+export function flow<Args extends unknown[], B>(
+  ab: (...args: Args) => B,
+): (...args: Args) => B;
+export function flow<Args extends unknown[], B, C>(
+  ab: (...args: Args) => B,
+  bc: (b: Awaited<B>) => C,
+): (...args: Args) => PipeReturn<[B], C>;
+export function flow<Args extends unknown[], B, C, D>(
+  ab: (...args: Args) => B,
+  bc: (b: Awaited<B>) => C,
+  cd: (c: Awaited<C>) => D,
+): (...args: Args) => PipeReturn<[B, C], D>;
+export function flow<Args extends unknown[], B, C, D, E>(
+  ab: (...args: Args) => B,
+  bc: (b: Awaited<B>) => C,
+  cd: (c: Awaited<C>) => D,
+  de: (d: Awaited<D>) => E,
+): (...args: Args) => PipeReturn<[B, C, D], E>;
+export function flow<Args extends unknown[], B, C, D, E, F>(
+  ab: (...args: Args) => B,
+  bc: (b: Awaited<B>) => C,
+  cd: (c: Awaited<C>) => D,
+  de: (d: Awaited<D>) => E,
+  ef: (e: Awaited<E>) => F,
+): (...args: Args) => PipeReturn<[B, C, D, E], F>;
+export function flow<Args extends unknown[], B, C, D, E, F, G>(
+  ab: (...args: Args) => B,
+  bc: (b: Awaited<B>) => C,
+  cd: (c: Awaited<C>) => D,
+  de: (d: Awaited<D>) => E,
+  ef: (e: Awaited<E>) => F,
+  fg: (f: Awaited<F>) => G,
+): (...args: Args) => PipeReturn<[B, C, D, E, F], G>;
+export function flow<Args extends unknown[], B, C, D, E, F, G, H>(
+  ab: (...args: Args) => B,
+  bc: (b: Awaited<B>) => C,
+  cd: (c: Awaited<C>) => D,
+  de: (d: Awaited<D>) => E,
+  ef: (e: Awaited<E>) => F,
+  fg: (f: Awaited<F>) => G,
+  gh: (g: Awaited<G>) => H,
+): (...args: Args) => PipeReturn<[B, C, D, E, F, G], H>;
+export function flow<Args extends unknown[], B, C, D, E, F, G, H, I>(
+  ab: (...args: Args) => B,
+  bc: (b: Awaited<B>) => C,
+  cd: (c: Awaited<C>) => D,
+  de: (d: Awaited<D>) => E,
+  ef: (e: Awaited<E>) => F,
+  fg: (f: Awaited<F>) => G,
+  gh: (g: Awaited<G>) => H,
+  hi: (h: Awaited<H>) => I,
+): (...args: Args) => PipeReturn<[B, C, D, E, F, G, H], I>;
+export function flow<Args extends unknown[], B, C, D, E, F, G, H, I, J>(
+  ab: (...args: Args) => B,
+  bc: (b: Awaited<B>) => C,
+  cd: (c: Awaited<C>) => D,
+  de: (d: Awaited<D>) => E,
+  ef: (e: Awaited<E>) => F,
+  fg: (f: Awaited<F>) => G,
+  gh: (g: Awaited<G>) => H,
+  hi: (h: Awaited<H>) => I,
+  ij: (i: Awaited<I>) => J,
+): (...args: Args) => PipeReturn<[B, C, D, E, F, G, H, I], J>;
+export function flow<Args extends unknown[], B, C, D, E, F, G, H, I, J, K>(
+  ab: (...args: Args) => B,
+  bc: (b: Awaited<B>) => C,
+  cd: (c: Awaited<C>) => D,
+  de: (d: Awaited<D>) => E,
+  ef: (e: Awaited<E>) => F,
+  fg: (f: Awaited<F>) => G,
+  gh: (g: Awaited<G>) => H,
+  hi: (h: Awaited<H>) => I,
+  ij: (i: Awaited<I>) => J,
+  jk: (j: Awaited<J>) => K,
+): (...args: Args) => PipeReturn<[B, C, D, E, F, G, H, I, J], K>;
+export function flow<Args extends unknown[], B, C, D, E, F, G, H, I, J, K, L>(
+  ab: (...args: Args) => B,
+  bc: (b: Awaited<B>) => C,
+  cd: (c: Awaited<C>) => D,
+  de: (d: Awaited<D>) => E,
+  ef: (e: Awaited<E>) => F,
+  fg: (f: Awaited<F>) => G,
+  gh: (g: Awaited<G>) => H,
+  hi: (h: Awaited<H>) => I,
+  ij: (i: Awaited<I>) => J,
+  jk: (j: Awaited<J>) => K,
+  kl: (k: Awaited<K>) => L,
+): (...args: Args) => PipeReturn<[B, C, D, E, F, G, H, I, J, K], L>;
+export function flow<
+  Args extends unknown[],
+  B,
+  C,
+  D,
+  E,
+  F,
+  G,
+  H,
+  I,
+  J,
+  K,
+  L,
+  M,
+>(
+  ab: (...args: Args) => B,
+  bc: (b: Awaited<B>) => C,
+  cd: (c: Awaited<C>) => D,
+  de: (d: Awaited<D>) => E,
+  ef: (e: Awaited<E>) => F,
+  fg: (f: Awaited<F>) => G,
+  gh: (g: Awaited<G>) => H,
+  hi: (h: Awaited<H>) => I,
+  ij: (i: Awaited<I>) => J,
+  jk: (j: Awaited<J>) => K,
+  kl: (k: Awaited<K>) => L,
+  lm: (l: Awaited<L>) => M,
+): (...args: Args) => PipeReturn<[B, C, D, E, F, G, H, I, J, K, L], M>;
+export function flow<
+  Args extends unknown[],
+  B,
+  C,
+  D,
+  E,
+  F,
+  G,
+  H,
+  I,
+  J,
+  K,
+  L,
+  M,
+  N,
+>(
+  ab: (...args: Args) => B,
+  bc: (b: Awaited<B>) => C,
+  cd: (c: Awaited<C>) => D,
+  de: (d: Awaited<D>) => E,
+  ef: (e: Awaited<E>) => F,
+  fg: (f: Awaited<F>) => G,
+  gh: (g: Awaited<G>) => H,
+  hi: (h: Awaited<H>) => I,
+  ij: (i: Awaited<I>) => J,
+  jk: (j: Awaited<J>) => K,
+  kl: (k: Awaited<K>) => L,
+  lm: (l: Awaited<L>) => M,
+  mn: (m: Awaited<M>) => N,
+): (...args: Args) => PipeReturn<[B, C, D, E, F, G, H, I, J, K, L, M], N>;
+export function flow<
+  Args extends unknown[],
+  B,
+  C,
+  D,
+  E,
+  F,
+  G,
+  H,
+  I,
+  J,
+  K,
+  L,
+  M,
+  N,
+  O,
+>(
+  ab: (...args: Args) => B,
+  bc: (b: Awaited<B>) => C,
+  cd: (c: Awaited<C>) => D,
+  de: (d: Awaited<D>) => E,
+  ef: (e: Awaited<E>) => F,
+  fg: (f: Awaited<F>) => G,
+  gh: (g: Awaited<G>) => H,
+  hi: (h: Awaited<H>) => I,
+  ij: (i: Awaited<I>) => J,
+  jk: (j: Awaited<J>) => K,
+  kl: (k: Awaited<K>) => L,
+  lm: (l: Awaited<L>) => M,
+  mn: (m: Awaited<M>) => N,
+  no: (n: Awaited<N>) => O,
+): (...args: Args) => PipeReturn<[B, C, D, E, F, G, H, I, J, K, L, M, N], O>;
+export function flow<
+  Args extends unknown[],
+  B,
+  C,
+  D,
+  E,
+  F,
+  G,
+  H,
+  I,
+  J,
+  K,
+  L,
+  M,
+  N,
+  O,
+  P,
+>(
+  ab: (...args: Args) => B,
+  bc: (b: Awaited<B>) => C,
+  cd: (c: Awaited<C>) => D,
+  de: (d: Awaited<D>) => E,
+  ef: (e: Awaited<E>) => F,
+  fg: (f: Awaited<F>) => G,
+  gh: (g: Awaited<G>) => H,
+  hi: (h: Awaited<H>) => I,
+  ij: (i: Awaited<I>) => J,
+  jk: (j: Awaited<J>) => K,
+  kl: (k: Awaited<K>) => L,
+  lm: (l: Awaited<L>) => M,
+  mn: (m: Awaited<M>) => N,
+  no: (n: Awaited<N>) => O,
+  op: (o: Awaited<O>) => P,
+): (...args: Args) => PipeReturn<[B, C, D, E, F, G, H, I, J, K, L, M, N, O], P>;
+export function flow<
+  Args extends unknown[],
+  B,
+  C,
+  D,
+  E,
+  F,
+  G,
+  H,
+  I,
+  J,
+  K,
+  L,
+  M,
+  N,
+  O,
+  P,
+  Q,
+>(
+  ab: (...args: Args) => B,
+  bc: (b: Awaited<B>) => C,
+  cd: (c: Awaited<C>) => D,
+  de: (d: Awaited<D>) => E,
+  ef: (e: Awaited<E>) => F,
+  fg: (f: Awaited<F>) => G,
+  gh: (g: Awaited<G>) => H,
+  hi: (h: Awaited<H>) => I,
+  ij: (i: Awaited<I>) => J,
+  jk: (j: Awaited<J>) => K,
+  kl: (k: Awaited<K>) => L,
+  lm: (l: Awaited<L>) => M,
+  mn: (m: Awaited<M>) => N,
+  no: (n: Awaited<N>) => O,
+  op: (o: Awaited<O>) => P,
+  pq: (p: Awaited<P>) => Q,
+): (
+  ...args: Args
+) => PipeReturn<[B, C, D, E, F, G, H, I, J, K, L, M, N, O, P], Q>;
+export function flow<
+  Args extends unknown[],
+  B,
+  C,
+  D,
+  E,
+  F,
+  G,
+  H,
+  I,
+  J,
+  K,
+  L,
+  M,
+  N,
+  O,
+  P,
+  Q,
+  R,
+>(
+  ab: (...args: Args) => B,
+  bc: (b: Awaited<B>) => C,
+  cd: (c: Awaited<C>) => D,
+  de: (d: Awaited<D>) => E,
+  ef: (e: Awaited<E>) => F,
+  fg: (f: Awaited<F>) => G,
+  gh: (g: Awaited<G>) => H,
+  hi: (h: Awaited<H>) => I,
+  ij: (i: Awaited<I>) => J,
+  jk: (j: Awaited<J>) => K,
+  kl: (k: Awaited<K>) => L,
+  lm: (l: Awaited<L>) => M,
+  mn: (m: Awaited<M>) => N,
+  no: (n: Awaited<N>) => O,
+  op: (o: Awaited<O>) => P,
+  pq: (p: Awaited<P>) => Q,
+  qr: (q: Awaited<Q>) => R,
+): (
+  ...args: Args
+) => PipeReturn<[B, C, D, E, F, G, H, I, J, K, L, M, N, O, P, Q], R>;
+export function flow<
+  Args extends unknown[],
+  B,
+  C,
+  D,
+  E,
+  F,
+  G,
+  H,
+  I,
+  J,
+  K,
+  L,
+  M,
+  N,
+  O,
+  P,
+  Q,
+  R,
+  S,
+>(
+  ab: (...args: Args) => B,
+  bc: (b: Awaited<B>) => C,
+  cd: (c: Awaited<C>) => D,
+  de: (d: Awaited<D>) => E,
+  ef: (e: Awaited<E>) => F,
+  fg: (f: Awaited<F>) => G,
+  gh: (g: Awaited<G>) => H,
+  hi: (h: Awaited<H>) => I,
+  ij: (i: Awaited<I>) => J,
+  jk: (j: Awaited<J>) => K,
+  kl: (k: Awaited<K>) => L,
+  lm: (l: Awaited<L>) => M,
+  mn: (m: Awaited<M>) => N,
+  no: (n: Awaited<N>) => O,
+  op: (o: Awaited<O>) => P,
+  pq: (p: Awaited<P>) => Q,
+  qr: (q: Awaited<Q>) => R,
+  rs: (r: Awaited<R>) => S,
+): (
+  ...args: Args
+) => PipeReturn<[B, C, D, E, F, G, H, I, J, K, L, M, N, O, P, Q, R], S>;
+export function flow<
+  Args extends unknown[],
+  B,
+  C,
+  D,
+  E,
+  F,
+  G,
+  H,
+  I,
+  J,
+  K,
+  L,
+  M,
+  N,
+  O,
+  P,
+  Q,
+  R,
+  S,
+  T,
+>(
+  ab: (...args: Args) => B,
+  bc: (b: Awaited<B>) => C,
+  cd: (c: Awaited<C>) => D,
+  de: (d: Awaited<D>) => E,
+  ef: (e: Awaited<E>) => F,
+  fg: (f: Awaited<F>) => G,
+  gh: (g: Awaited<G>) => H,
+  hi: (h: Awaited<H>) => I,
+  ij: (i: Awaited<I>) => J,
+  jk: (j: Awaited<J>) => K,
+  kl: (k: Awaited<K>) => L,
+  lm: (l: Awaited<L>) => M,
+  mn: (m: Awaited<M>) => N,
+  no: (n: Awaited<N>) => O,
+  op: (o: Awaited<O>) => P,
+  pq: (p: Awaited<P>) => Q,
+  qr: (q: Awaited<Q>) => R,
+  rs: (r: Awaited<R>) => S,
+  st: (s: Awaited<S>) => T,
+): (
+  ...args: Args
+) => PipeReturn<[B, C, D, E, F, G, H, I, J, K, L, M, N, O, P, Q, R, S], T>;
+export function flow<
+  Args extends unknown[],
+  B,
+  C,
+  D,
+  E,
+  F,
+  G,
+  H,
+  I,
+  J,
+  K,
+  L,
+  M,
+  N,
+  O,
+  P,
+  Q,
+  R,
+  S,
+  T,
+  U,
+>(
+  ab: (...args: Args) => B,
+  bc: (b: Awaited<B>) => C,
+  cd: (c: Awaited<C>) => D,
+  de: (d: Awaited<D>) => E,
+  ef: (e: Awaited<E>) => F,
+  fg: (f: Awaited<F>) => G,
+  gh: (g: Awaited<G>) => H,
+  hi: (h: Awaited<H>) => I,
+  ij: (i: Awaited<I>) => J,
+  jk: (j: Awaited<J>) => K,
+  kl: (k: Awaited<K>) => L,
+  lm: (l: Awaited<L>) => M,
+  mn: (m: Awaited<M>) => N,
+  no: (n: Awaited<N>) => O,
+  op: (o: Awaited<O>) => P,
+  pq: (p: Awaited<P>) => Q,
+  qr: (q: Awaited<Q>) => R,
+  rs: (r: Awaited<R>) => S,
+  st: (s: Awaited<S>) => T,
+  tu: (t: Awaited<T>) => U,
+): (
+  ...args: Args
+) => PipeReturn<[B, C, D, E, F, G, H, I, J, K, L, M, N, O, P, Q, R, S, T], U>;
+export function flow(
+  first: (...args: unknown[]) => unknown,
+  ...steps: Step[]
+): (...args: unknown[]) => unknown {
+  return (...args) => run(first(...args), steps);
+}
@@ -0,0 +1,24 @@
+import { describe, expectTypeOf, it } from "vitest";
+import type { RetryError } from "./retry";
+import { retry$ } from "./retry";
+import type { Result } from "./types";
+
+describe("retry$", () => {
+  it("should use the result types of result returning functions", () => {
+    expectTypeOf(
+      retry$(() => ({}) as Result<number, "error">, {
+        retryIf: (error) => {
+          expectTypeOf(error).toEqualTypeOf<"error">();
+
+          return true;
+        },
+      }),
+    ).toEqualTypeOf<Promise<Result<number, RetryError<"error">>>>();
+  });
+
+  it("should use unknown errors for throwing functions", () => {
+    expectTypeOf(retry$(async () => "value")).toEqualTypeOf<
+      Promise<Result<string, RetryError<unknown>>>
+    >();
+  });
+});
@@ -0,0 +1,132 @@
+import { describe, expect, it, vi } from "vitest";
+import { err, ok, unwrapErr } from "./impl";
+import { RetryError, retry$ } from "./retry";
+import type { Err, RetryOptions } from "./types";
+
+const fakeClock = () => {
+  let time = 0;
+  const sleep = vi.fn(async (ms: number) => {
+    time += ms;
+  });
+
+  return {
+    now: () => time,
+    sleep,
+    random: () => 0.5,
+  } satisfies RetryOptions<unknown>["clock"];
+};
+
+const retryError = async (result: Promise<unknown>) =>
+  unwrapErr((await result) as Err<RetryError>);
+
+describe("retry$", () => {
+  it("should return the first ok", async () => {
+    const fn = vi
+      .fn()
+      .mockReturnValueOnce(err("first"))
+      .mockReturnValueOnce(ok("second"));
+
+    await expect(retry$(fn, { clock: fakeClock() })).resolves.toStrictEqual(
+      ok("second"),
+    );
+    expect(fn).toHaveBeenCalledTimes(2);
+    expect(fn).toHaveBeenLastCalledWith({ attempt: 2, signal: undefined });
+  });
+
+  it("should retry thrown errors and rejections", async () => {
+    const fn = vi
+      .fn()
+      .mockImplementationOnce(() => {
+        throw new Error("thrown");
+      })
+      .mockRejectedValueOnce(new Error("rejected"))
+      .mockResolvedValueOnce(1);
+
+    await expect(retry$(fn, { clock: fakeClock() })).resolves.toStrictEqual(
+      ok(1),
+    );
+  });
+
+  it("should record every attempt when running out of attempts", async () => {
+    const clock = fakeClock();
+    const error = await retryError(
+      retry$(({ attempt }) => err(attempt), { attempts: 3, clock }),
+    );
+
+    expect(error).toBeInstanceOf(RetryError);
+    expect(error.reason).toBe("exhausted");
+    expect(error.cause).toBe(3);
+    expect(error.attempts).toStrictEqual([
+      { attempt: 1, error: 1, startedAt: 0, duration: 0, delay: 100 },
+      { attempt: 2, error: 2, startedAt: 100, duration: 0, delay: 200 },
+      { attempt: 3, error: 3, startedAt: 300, duration: 0 },
+    ]);
+  });
+
+  it.each([
+    ["exponential", [100, 200, 400]],
+    ["linear", [100, 200, 300]],
+    [50, [50, 50, 50]],
+    [(attempt: number) => attempt * 7, [7, 14, 21]],
+  ] as const)("should use the %s backoff", async (backoff, expected) => {
+    const clock = fakeClock();
+
+    await retry$(() => err("error"), { attempts: 4, backoff, clock });
+
+    expect(clock.sleep.mock.calls.map(([ms]) => ms)).toStrictEqual(expected);
+  });
+
+  it("should cap the delay and apply jitter", async () => {
+    const clock = fakeClock();
+
+    await retry$(() => err("error"), {
+      attempts: 4,
+      maxDelay: 150,
+      jitter: true,
+      clock,
+    });
+
+    expect(clock.sleep.mock.calls.map(([ms]) => ms)).toStrictEqual([
+      50, 75, 75,
+    ]);
+  });
+
+  it("should stop if the error should not be retried", async () => {
+    const retryIf = vi.fn((error: string) => error !== "fatal");
+    const error = await retryError(
+      retry$(() => err("fatal"), { retryIf, clock: fakeClock() }),
+    );
+
+    expect(error.reason).toBe("not-retryable");
+    expect(error.attempts).toHaveLength(1);
+    expect(retryIf).toHaveBeenCalledWith("fatal", 1);
+  });
+
+  it("should stop when the signal is aborted", async () => {
+    const controller = new AbortController();
+    const fn = vi.fn(() => {
+      controller.abort("stop");
+      return err("error");
+    });
+    const error = await retryError(retry$(fn, { signal: controller.signal }));
+
+    expect(error.reason).toBe("aborted");
+    expect(error.cause).toBe("stop");
+    expect(fn).toHaveBeenCalledOnce();
+    expect(fn).toHaveBeenCalledWith({
+      attempt: 1,
+      signal: controller.signal,
+    });
+  });
+
+  it("should not start if the signal is already aborted", async () => {
+    const fn = vi.fn();
+    const error = await retryError(
+      retry$(fn, { signal: AbortSignal.abort("stop") }),
+    );
+
+    expect(error.reason).toBe("aborted");
+    expect(error.attempts).toHaveLength(0);
+    expect(fn).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,166 @@
+import { sleep } from "../helpers";
+import { err, isErr, isOk, isResult, try$ } from "./impl";
+import { defineError } from "./tagged";
+import type {
+  MaybePromise,
+  Result,
+  RetryAttempt,
+  RetryBackoff,
+  RetryContext,
+  RetryOptions,
+} from "./types";
+
+/**
+ * The error returned by {@link retry$} when no attempt succeeded.
+ *
+ * The `reason` says why the retrying stopped:
+ * - `"exhausted"` when all the attempts failed
+ * - `"not-retryable"` when `retryIf` returned `false`
+ * - `"aborted"` when the signal was aborted
+ *
+ * Every failed attempt is recorded in `attempts`.
+ * The `cause` is the error of the last attempt, or the abort reason.
+ */
+export class RetryError<E = unknown> extends defineError("RetryError")<{
+  message: string;
+  reason: "exhausted" | "not-retryable" | "aborted";
+  attempts: RetryAttempt<unknown>[];
+}>() {
+  declare readonly attempts: RetryAttempt<E>[];
+}
+
+function getDelay<E>(
+  backoff: RetryBackoff<E>,
+  base: number,
+  attempt: number,
+  error: E,
+): number {
+  switch (backoff) {
+    case "exponential":
+      return base * 2 ** (attempt - 1);
+    case "linear":
+      return base * attempt;
+    default:
+      return typeof backoff === "number" ? backoff : backoff(attempt, error);
+  }
+}
+
+/**
+ * Run a function until it succeeds or runs out of attempts.
+ *
+ * The function can either return a result, or throw (or reject) on failure.
+ * It gets the attempt number and the signal (if one was provided).
+ *
+ * If all the attempts fail, a {@link RetryError} with the history of every attempt is returned.
+ *
+ * @example
+ * ```ts
+ * const result = await retry$(() => fetch(url), {
+ *   attempts: 5,
+ *   backoff: "exponential",
+ *   jitter: true,
+ * });
+ * // result is a Result<Response, RetryError<unknown>>
+ * ```
+ * @example
+ * ```ts
+ * const result = await retry$(({ signal }) => fetchUser(id, signal), {
+ *   retryIf: (error) => error._tag === "Timeout",
+ *   signal: AbortSignal.timeout(10_000),
+ * });
+ * // result is a Result<User, RetryError<NotFoundError | TimeoutError>>
+ * ```
+ *
+ * @see {@link RetryOptions}
+ */
+export function retry$<T, E>(
+  fn: (context: RetryContext) => MaybePromise<Result<T, E>>,
+  options?: RetryOptions<E>,
+): Promise<Result<T, RetryError<E>>>;
+export function retry$<T, E = unknown>(
+  fn: (context: RetryContext) => MaybePromise<T>,
+  options?: RetryOptions<E>,
+): Promise<Result<T, RetryError<E>>>;
+export async function retry$<T, E>(
+  fn: (context: RetryContext) => MaybePromise<T | Result<T, E>>,
+  options: RetryOptions<E> = {},
+): Promise<Result<T, RetryError<E>>> {
+  const {
+    attempts = 3,
+    backoff = "exponential",
+    delay = 100,
+    maxDelay = Number.POSITIVE_INFINITY,
+    jitter = false,
+    retryIf,
+    signal,
+    clock = {},
+  } = options;
+  const { now = Date.now, sleep: wait = sleep, random = Math.random } = clock;
+  const history: RetryAttempt<E>[] = [];
+  const fail = (reason: RetryError["reason"], cause: unknown) =>
+    err(
+      new RetryError<E>(
+        {
+          message: `Retrying stopped after ${history.length} attempt(s): ${reason}`,
+          reason,
+          attempts: history,
+        },
+        { cause },
+      ),
+    );
+
+  for (let attempt = 1; ; attempt++) {
+    if (signal?.aborted) {
+      return fail("aborted", signal.reason);
+    }
+
+    const startedAt = now();
+    const res = await try$<T | Result<T, E>, E>(async () =>
+      fn({ attempt, signal }),
+    );
+    const result = (isOk(res) && isResult(res.data) ? res.data : res) as Result<
+      T,
+      E
+    >;
+
+    if (isOk(result)) {
+      return result;
+    }
+
+    const failed: RetryAttempt<E> = {
+      attempt,
+      error: result.error,
+      startedAt,
+      duration: now() - startedAt,
+    };
+
+    history.push(failed);
+
+    if (attempt >= attempts) {
+      return fail("exhausted", result.error);
+    }
+
+    if (retryIf && !retryIf(result.error, attempt)) {
+      return fail("not-retryable", result.error);
+    }
+
+    let ms = Math.min(
+      getDelay(backoff, delay, attempt, result.error),
+      maxDelay,
+    );
+
+    if (jitter === true) {
+      ms = random() * ms;
+    } else if (jitter) {
+      ms = jitter(ms);
+    }
+
+    failed.delay = ms;
+
+    const slept = await try$(wait(ms, signal));
+
+    if (isErr(slept)) {
+      return fail("aborted", slept.error);
+    }
+  }
+}
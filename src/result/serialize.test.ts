@@ -0,0 +1,166 @@
+import { describe, expect, it } from "vitest";
+import { err, ok, unwrap, unwrapErr } from "./impl";
+import { DeserializeError, deserialize, serialize } from "./serialize";
+import { defineError } from "./tagged";
+import type { Err, Ok, Result } from "./types";
+
+class NotFoundError extends defineError("NotFound")<{ id: string }>() {}
+
+const roundTrip = (
+  result: Result<unknown, unknown>,
+  options?: Parameters<typeof deserialize>[1],
+) => {
+  const json = JSON.stringify(serialize(result));
+
+  return unwrap(deserialize(json, options) as Ok<unknown>) as Result<
+    unknown,
+    unknown
+  >;
+};
+
+describe("serialize", () => {
+  it.each([
+    [ok("ok"), { ok: true, data: "ok" }],
+    [err("err"), { ok: false, error: "err" }],
+  ])("should keep plain values as they are: %p", (result, expected) => {
+    expect(serialize(result)).toStrictEqual(expected);
+  });
+
+  it("should encode errors", () => {
+    expect(serialize(err(new TypeError("error")))).toStrictEqual({
+      ok: false,
+      error: { "~error": { name: "TypeError", message: "error" } },
+    });
+  });
+
+  it("should only include the stack if asked to", () => {
+    const error = new Error("error");
+
+    expect(serialize(err(error), { stack: true })).toMatchObject({
+      error: { "~error": { stack: error.stack } },
+    });
+  });
+
+  it("should be structured cloneable", () => {
+    const serialized = serialize(err(new NotFoundError({ id: "42" })));
+
+    expect(structuredClone(serialized)).toStrictEqual(serialized);
+  });
+
+  it("should not loop on circular causes", () => {
+    const error = new Error("error");
+    error.cause = error;
+
+    expect(serialize(err(error))).toStrictEqual({
+      ok: false,
+      error: {
+        "~error": { name: "Error", message: "error", cause: undefined },
+      },
+    });
+  });
+});
+
+describe("deserialize", () => {
+  it("should round trip plain values", () => {
+    expect(roundTrip(ok({ a: [1, "2"] }))).toStrictEqual(ok({ a: [1, "2"] }));
+    expect(roundTrip(err("error"))).toStrictEqual(err("error"));
+  });
+
+  it("should rebuild built-in errors", () => {
+    const error = unwrapErr(
+      roundTrip(err(new RangeError("error"))) as Err<unknown>,
+    );
+
+    expect(error).toBeInstanceOf(RangeError);
+    expect(error).toHaveProperty("message", "error");
+  });
+
+  it("should rebuild cause chains", () => {
+    const result = roundTrip(
+      err(new Error("outer", { cause: new TypeError("inner") })),
+    );
+    const error = unwrapErr(result as Err<unknown>) as Error;
+
+    expect(error.message).toBe("outer");
+    expect(error.cause).toBeInstanceOf(TypeError);
+    expect((error.cause as Error).message).toBe("inner");
+  });
+
+  it("should rebuild aggregate errors", () => {
+    const result = roundTrip(
+      err(new AggregateError([new Error("a"), "b"], "many")),
+    );
+    const error = unwrapErr(result as Err<unknown>) as AggregateError;
+
+    expect(error).toBeInstanceOf(AggregateError);
+    expect(error.errors).toHaveLength(2);
+    expect(error.errors[0]).toBeInstanceOf(Error);
+    expect(error.errors[1]).toBe("b");
+  });
+
+  it("should rebuild registered error classes with their fields", () => {
+    const result = roundTrip(err(new NotFoundError({ id: "42" })), {
+      registry: { NotFound: NotFoundError },
+    });
+    const error = unwrapErr(result as Err<unknown>) as NotFoundError;
+
+    expect(error).toBeInstanceOf(NotFoundError);
+    expect(error._tag).toBe("NotFound");
+    expect(error.name).toBe("NotFound");
+    expect(error.id).toBe("42");
+  });
+
+  it("should fall back to a plain error for unknown classes", () => {
+    const result = roundTrip(err(new NotFoundError({ id: "42" })));
+    const error = unwrapErr(result as Err<unknown>) as NotFoundError;
+
+    expect(error).toBeInstanceOf(Error);
+    expect(error).not.toBeInstanceOf(NotFoundError);
+    expect(error.name).toBe("NotFound");
+    expect(error.id).toBe("42");
+  });
+
+  it("should round trip undefined data and errors", () => {
+    expect(roundTrip(ok(undefined))).toStrictEqual(ok(undefined));
+    expect(roundTrip(err(undefined))).toStrictEqual(err(undefined));
+  });
+
+  it("should rebuild errors nested in data", () => {
+    const result = roundTrip(ok({ errors: [new Error("error")] }));
+
+    expect(
+      (unwrap(result as Ok<unknown>) as { errors: Error[] }).errors[0],
+    ).toBeInstanceOf(Error);
+  });
+
+  it.each([
+    ["not json"],
+    ['{"not":"a result"}'],
+    [null],
+    [[]],
+    [{ ok: "true" }],
+    [{ ok: true }],
+    [{ ok: false }],
+    ['{"ok":true}'],
+    [{ ok: false, error: { "~error": { name: 1 } } }],
+  ])("should return an err for invalid input: %p", (input) => {
+    const result = deserialize(input);
+
+    expect(result.ok).toBe(false);
+    expect(unwrapErr(result as Err<unknown>)).toBeInstanceOf(DeserializeError);
+  });
+
+  it.each([["__proto__"], ["constructor"], ["prototype"]])(
+    "should return an err for a %s field",
+    (key) => {
+      const result = deserialize(
+        `{"ok":false,"error":{"~error":{"name":"TypeError","message":"x","fields":{"${key}":{"polluted":1}}}}}`,
+      );
+
+      expect(unwrapErr(result as Err<unknown>)).toBeInstanceOf(
+        DeserializeError,
+      );
+      expect(({} as { polluted?: number }).polluted).toBeUndefined();
+    },
+  );
+});
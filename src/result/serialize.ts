@@ -0,0 +1,310 @@
+import { isPlainObject } from "../helpers";
+import { err, isErr, isOk, isResult, ok, try$ } from "./impl";
+import { defineError } from "./tagged";
+import type {
+  ErrorRegistry,
+  Result,
+  SerializedError,
+  SerializedResult,
+} from "./types";
+
+/**
+ * The error returned by {@link deserialize} when the input is not a valid serialized result.
+ */
+export class DeserializeError extends defineError("DeserializeError")<{
+  message: string;
+}>() {}
+
+const builtinErrors: ErrorRegistry = {
+  Error,
+  AggregateError,
+  EvalError,
+  RangeError,
+  ReferenceError,
+  SyntaxError,
+  TypeError,
+  URIError,
+};
+
+const ownErrorKeys = new Set(["name", "message", "stack", "cause", "errors"]);
+const unsafeFieldKeys = new Set(["__proto__", "constructor", "prototype"]);
+
+/**
+ * Stands in for an `undefined` data or error, which `JSON.stringify` would drop.
+ */
+const undefinedMarker = "~undefined";
+
+function encodeTop(value: unknown, stack: boolean): unknown {
+  if (value === undefined) {
+    return { [undefinedMarker]: true };
+  }
+
+  return encode(value, stack, new Set());
+}
+
+function decodeTop(value: unknown, registry: ErrorRegistry): unknown {
+  if (
+    isPlainObject(value) &&
+    value[undefinedMarker] === true &&
+    Object.keys(value).length === 1
+  ) {
+    return undefined;
+  }
+
+  return decode(value, registry);
+}
+
+function encode(value: unknown, stack: boolean, seen: Set<object>): unknown {
+  if (typeof value !== "object" || value === null) {
+    return value;
+  }
+
+  if (seen.has(value)) {
+    return undefined;
+  }
+
+  seen.add(value);
+
+  try {
+    if (value instanceof Error) {
+      const error: SerializedError["~error"] = {
+        name: value.name,
+        message: value.message,
+      };
+
+      if (stack && typeof value.stack === "string") {
+        error.stack = value.stack;
+      }
+
+      if ("cause" in value) {
+        error.cause = encode(value.cause, stack, seen);
+      }
+
+      if (value instanceof AggregateError) {
+        error.errors = value.errors.map((x) => encode(x, stack, seen));
+      }
+
+      const fields = Object.entries(value).filter(
+        ([key]) => !ownErrorKeys.has(key),
+      );
+
+      if (fields.length > 0) {
+        error.fields = Object.fromEntries(
+          fields.map(([key, x]) => [key, encode(x, stack, seen)]),
+        );
+      }
+
+      return { "~error": error } satisfies SerializedError;
+    }
+
+    if (Array.isArray(value)) {
+      return value.map((x) => encode(x, stack, seen));
+    }
+
+    if (isPlainObject(value)) {
+      return Object.fromEntries(
+        Object.entries(value).map(([key, x]) => [key, encode(x, stack, seen)]),
+      );
+    }
+
+    return value;
+  } finally {
+    seen.delete(value);
+  }
+}
+
+function isSerializedError(value: unknown): value is SerializedError {
+  return (
+    isPlainObject(value) &&
+    Object.keys(value).length === 1 &&
+    isPlainObject(value["~error"])
+  );
+}
+
+function decode(value: unknown, registry: ErrorRegistry): unknown {
+  if (Array.isArray(value)) {
+    return value.map((x) => decode(x, registry));
+  }
+
+  if (!isPlainObject(value)) {
+    return value;
+  }
+
+  if (!isSerializedError(value)) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, x]) => [key, decode(x, registry)]),
+    );
+  }
+
+  const data = value["~error"];
+
+  if (typeof data.name !== "string" || typeof data.message !== "string") {
+    throw new DeserializeError({
+      message: "Serialized errors must have a string name and message",
+    });
+  }
+
+  const ErrorClass = Object.hasOwn(registry, data.name)
+    ? registry[data.name]
+    : Object.hasOwn(builtinErrors, data.name)
+      ? builtinErrors[data.name]
+      : Error;
+  const error = Object.create((ErrorClass ?? Error).prototype) as Error &
+    Record<string, unknown>;
+  const define = (key: string, value: unknown) =>
+    Object.defineProperty(error, key, {
+      value,
+      writable: true,
+      configurable: true,
+      enumerable: false,
+    });
+
+  define("message", data.message);
+
+  if (error.name !== data.name) {
+    define("name", data.name);
+  }
+
+  if (typeof data.stack === "string") {
+    define("stack", data.stack);
+  }
+
+  if ("cause" in data) {
+    define("cause", decode(data.cause, registry));
+  }
+
+  if (Array.isArray(data.errors)) {
+    define("errors", decode(data.errors, registry));
+  }
+
+  if (isPlainObject(data.fields)) {
+    for (const [key, field] of Object.entries(data.fields)) {
+      if (unsafeFieldKeys.has(key)) {
+        throw new DeserializeError({
+          message: `Serialized errors can't have a "${key}" field`,
+        });
+      }
+
+      Object.defineProperty(error, key, {
+        value: decode(field, registry),
+        writable: true,
+        configurable: true,
+        enumerable: true,
+      });
+    }
+  }
+
+  return error;
+}
+
+/**
+ * Turn a result into a plain object that keeps errors intact
+ * when passed through `JSON.stringify` or `structuredClone`.
+ *
+ * Errors anywhere in the data or error of the result are encoded with their
+ * name, message, `cause` chain, `AggregateError` errors and custom enumerable fields.
+ *
+ * The stack is only included if the `stack` option is set.
+ * An `undefined` data or error is encoded as `{ "~undefined": true }`, so it survives `JSON.stringify`.
+ *
+ * Use {@link deserialize} to turn the plain object back into a result.
+ *
+ * @example
+ * ```ts
+ * const result = err(new Error("error", { cause: new TypeError("cause") }));
+ * const json = JSON.stringify(serialize(result));
+ * // json is {"ok":false,"error":{"~error":{"name":"Error","message":"error","cause":{...}}}}
+ * ```
+ *
+ * @see {@link deserialize}
+ */
+export function serialize<T, E>(
+  result: Result<T, E>,
+  options: { stack?: boolean } = {},
+): SerializedResult {
+  const stack = options.stack ?? false;
+
+  if (isOk(result)) {
+    return { ok: true, data: encodeTop(result.data, stack) };
+  }
+
+  return { ok: false, error: encodeTop(result.error, stack) };
+}
+
+/**
+ * Turn a serialized result back into a result, rebuilding the errors.
+ *
+ * Accepts either the output of {@link serialize}, or a JSON string of it.
+ *
+ * Errors are rebuilt from the classes in the `registry` option by their name,
+ * falling back to the built-in error classes and then to `Error`.
+ * Constructors are not called when rebuilding errors.
+ *
+ * If the input is not a valid serialized result, a {@link DeserializeError} is returned.
+ * Error fields named `__proto__`, `constructor` or `prototype` are rejected the same way.
+ *
+ * @example
+ * ```ts
+ * const result = deserialize(json, { registry: { NotFound: NotFoundError } });
+ * // result is an Ok with the original result
+ * ```
+ * @example
+ * ```ts
+ * const result = deserialize('{"not":"a result"}');
+ * // result is an Err with a DeserializeError
+ * ```
+ *
+ * @see {@link serialize}
+ */
+export function deserialize<T = unknown, E = unknown>(
+  input: unknown,
+  options: { registry?: ErrorRegistry } = {},
+): Result<Result<T, E>, DeserializeError> {
+  const registry = options.registry ?? {};
+  let value = input;
+
+  if (typeof value === "string") {
+    const parsed = try$(() => JSON.parse(value as string) as unknown);
+
+    if (isErr(parsed)) {
+      return err(
+        new DeserializeError(
+          { message: "Invalid JSON" },
+          { cause: parsed.error },
+        ),
+      );
+    }
+
+    value = parsed.data;
+  }
+
+  if (!isResult(value)) {
+    return err(
+      new DeserializeError({
+        message:
+          "Serialized results must be objects with a boolean ok field and the matching data or error",
+      }),
+    );
+  }
+
+  const decoded = try$(() =>
+    value.ok
+      ? ok(decodeTop(value.data, registry) as T)
+      : err(decodeTop(value.error, registry) as E),
+  );
+
+  if (isErr(decoded)) {
+    if (decoded.error instanceof DeserializeError) {
+      return err(decoded.error);
+    }
+
+    return err(
+      new DeserializeError(
+        { message: "Invalid serialized result" },
+        { cause: decoded.error },
+      ),
+    );
+  }
+
+  return ok(decoded.data);
+}
@@ -0,0 +1,77 @@
+import { describe, expectTypeOf, it } from "vitest";
+import { err, ok } from "./impl";
+import { catchTag, catchTags, defineError } from "./tagged";
+import type { ErrorTag, Result } from "./types";
+
+const NotFoundError = defineError("NotFound")<{ id: string }>();
+type NotFoundError = InstanceType<typeof NotFoundError>;
+class TimeoutError extends defineError("Timeout")<{ ms: number }>() {}
+
+declare const result: Result<number, NotFoundError | TimeoutError | "plain">;
+
+describe("defineError", () => {
+  it("should have a literal tag and the props", () => {
+    const error = new NotFoundError({ id: "42" });
+
+    expectTypeOf(error._tag).toEqualTypeOf<"NotFound">();
+    expectTypeOf(error.id).toEqualTypeOf<string>();
+    expectTypeOf(error).toExtend<Error>();
+  });
+
+  it("should require the props", () => {
+    // @ts-expect-error The props are required
+    new NotFoundError();
+  });
+});
+
+describe("ErrorTag", () => {
+  it("should be the union of the tags", () => {
+    expectTypeOf<
+      ErrorTag<NotFoundError | TimeoutError | string>
+    >().toEqualTypeOf<"NotFound" | "Timeout">();
+  });
+});
+
+describe("catchTag", () => {
+  it("should remove the handled tag from the error", () => {
+    expectTypeOf(
+      catchTag(result, "NotFound", (error) => {
+        expectTypeOf(error).toEqualTypeOf<NotFoundError>();
+
+        return ok("recovered" as const);
+      }),
+    ).toEqualTypeOf<Result<number | "recovered", TimeoutError | "plain">>();
+  });
+
+  it("should add the errors of the handler", () => {
+    expectTypeOf(
+      catchTag(Promise.resolve(result), "Timeout", () => err("retry" as const)),
+    ).toEqualTypeOf<
+      Promise<Result<number, NotFoundError | "plain" | "retry">>
+    >();
+  });
+
+  it("should only allow known tags", () => {
+    // @ts-expect-error Unknown tag
+    catchTag(result, "Unknown", () => ok(1));
+  });
+});
+
+describe("catchTags", () => {
+  it("should remove the handled tags from the error", () => {
+    expectTypeOf(
+      catchTags(result, {
+        NotFound: (error) => ok(error.id),
+        Timeout: (error) => err(error.ms),
+      }),
+    ).toEqualTypeOf<Result<number | string, "plain" | number>>();
+  });
+
+  it("should return a promise if a handler is async", () => {
+    expectTypeOf(
+      catchTags(result, {
+        Timeout: async () => ok(0),
+      }),
+    ).toEqualTypeOf<Promise<Result<number, NotFoundError | "plain">>>();
+  });
+});
@@ -0,0 +1,145 @@
+import { describe, expect, it, vi } from "vitest";
+import { err, ok } from "./impl";
+import { catchTag, catchTags, defineError, isTaggedError } from "./tagged";
+import type { Result } from "./types";
+
+const NotFoundError = defineError("NotFound")<{ id: string }>();
+type NotFoundError = InstanceType<typeof NotFoundError>;
+class TimeoutError extends defineError("Timeout")<{ ms: number }>() {}
+const EmptyError = defineError("Empty")();
+
+describe("defineError", () => {
+  it("should create error instances with a tag", () => {
+    const error = new NotFoundError({ id: "42" });
+
+    expect(error).toBeInstanceOf(Error);
+    expect(error).toBeInstanceOf(NotFoundError);
+    expect(error._tag).toBe("NotFound");
+    expect(error.name).toBe("NotFound");
+    expect(error.message).toBe("NotFound");
+    expect(error.id).toBe("42");
+    expect(NotFoundError._tag).toBe("NotFound");
+  });
+
+  it("should allow extending the class", () => {
+    const cause = new Error("cause");
+    const error = new TimeoutError({ ms: 100 }, { cause });
+
+    expect(error).toBeInstanceOf(TimeoutError);
+    expect(error._tag).toBe("Timeout");
+    expect(error.ms).toBe(100);
+    expect(error.cause).toBe(cause);
+  });
+
+  it("should use the message prop as the message", () => {
+    const MessageError = defineError("Message")<{ message: string }>();
+
+    expect(new MessageError({ message: "hello" }).message).toBe("hello");
+  });
+
+  it("should not require props if there are none", () => {
+    expect(new EmptyError()._tag).toBe("Empty");
+  });
+});
+
+describe("isTaggedError", () => {
+  it("should check for tagged errors", () => {
+    expect(isTaggedError(new NotFoundError({ id: "42" }))).toBe(true);
+    expect(isTaggedError(new NotFoundError({ id: "42" }), "NotFound")).toBe(
+      true,
+    );
+    expect(isTaggedError(new NotFoundError({ id: "42" }), "Timeout")).toBe(
+      false,
+    );
+    expect(isTaggedError(new Error("error"))).toBe(false);
+    expect(isTaggedError({ _tag: "NotFound" })).toBe(false);
+  });
+});
+
+describe("catchTag", () => {
+  const notFound = err(new NotFoundError({ id: "42" })) as Result<
+    number,
+    NotFoundError | TimeoutError
+  >;
+
+  it("should call the handler for the matching tag", () => {
+    const fn = vi.fn().mockReturnValue(ok(0));
+
+    expect(catchTag(notFound, "NotFound", fn)).toStrictEqual(ok(0));
+    expect(fn).toHaveBeenCalledWith(notFound.ok ? null : notFound.error);
+  });
+
+  it("should not call the handler for other tags", () => {
+    const fn = vi.fn();
+
+    expect(catchTag(notFound, "Timeout", fn)).toBe(notFound);
+    expect(fn).not.toHaveBeenCalled();
+  });
+
+  it("should match plain objects with a tag", () => {
+    const fn = vi.fn().mockReturnValue(ok(0));
+
+    expect(catchTag(err({ _tag: "A" as const }), "A", fn)).toStrictEqual(ok(0));
+    expect(fn).toHaveBeenCalledWith({ _tag: "A" });
+  });
+
+  it("should not call the handler for oks", () => {
+    const fn = vi.fn();
+    const result = ok(1) as Result<number, TimeoutError>;
+
+    expect(catchTag(result, "Timeout", fn)).toBe(result);
+    expect(fn).not.toHaveBeenCalled();
+  });
+
+  it("should work with promises", async () => {
+    await expect(
+      catchTag(Promise.resolve(notFound), "NotFound", () => ok(0)),
+    ).resolves.toStrictEqual(ok(0));
+    await expect(
+      catchTag(notFound, "NotFound", async () => err("other")),
+    ).resolves.toStrictEqual(err("other"));
+  });
+});
+
+describe("catchTags", () => {
+  const timeout = err(new TimeoutError({ ms: 100 })) as Result<
+    number,
+    NotFoundError | TimeoutError | string
+  >;
+
+  it("should call the handler for the matching tag", () => {
+    const notFound = vi.fn();
+
+    expect(
+      catchTags(timeout, {
+        NotFound: notFound,
+        Timeout: (error) => ok(error.ms),
+      }),
+    ).toStrictEqual(ok(100));
+    expect(notFound).not.toHaveBeenCalled();
+  });
+
+  it("should return the result if no handler matches", () => {
+    const untagged = err("error") as typeof timeout;
+
+    expect(catchTags(timeout, { NotFound: () => ok(0) })).toBe(timeout);
+    expect(catchTags(untagged, { Timeout: () => ok(0) })).toBe(untagged);
+  });
+
+  it("should match plain objects with a tag", () => {
+    expect(
+      catchTags(err({ _tag: "A" as const, code: 1 }), {
+        A: (error) => ok(error.code),
+      }),
+    ).toStrictEqual(ok(1));
+  });
+
+  it("should work with promises", async () => {
+    await expect(
+      catchTags(Promise.resolve(timeout), { Timeout: () => ok(0) }),
+    ).resolves.toStrictEqual(ok(0));
+    await expect(
+      catchTags(timeout, { Timeout: async () => ok(0) }),
+    ).resolves.toStrictEqual(ok(0));
+  });
+});
@@ -0,0 +1,229 @@
+import { isPromise } from "../helpers";
+import { unwrapErr } from "./impl";
+import type {
+  CatchTagsHandlers,
+  CatchTagsReturn,
+  ErrorTag,
+  MaybePromise,
+  Result,
+  TaggedError,
+  TaggedErrorClass,
+} from "./types";
+
+/**
+ * Define a new error class with a literal `_tag`.
+ *
+ * The tag is also used as the `name` and the default `message` of the error.
+ *
+ * The props passed to the constructor are assigned to the error instance.
+ * If a `message` prop is passed, it's used as the error message.
+ *
+ * The class can be used directly or extended.
+ *
+ * @example
+ * ```ts
+ * const NotFoundError = defineError("NotFound")<{ id: string }>();
+ * const error = new NotFoundError({ id: "42" });
+ * error._tag; // "NotFound"
+ * error.id; // "42"
+ * error instanceof Error; // true
+ * ```
+ * @example
+ * ```ts
+ * class TimeoutError extends defineError("Timeout")<{ ms: number }>() {}
+ * const error = new TimeoutError({ ms: 1000 }, { cause: originalError });
+ * ```
+ *
+ * @see {@link catchTag}
+ * @see {@link catchTags}
+ */
+export function defineError<const Tag extends string>(tag: Tag) {
+  return <Props extends object = Record<never, never>>(): TaggedErrorClass<
+    Tag,
+    Props
+  > => {
+    class Tagged extends Error {
+      static readonly _tag = tag;
+      readonly _tag = tag;
+
+      constructor(props?: Props, options?: ErrorOptions) {
+        const message =
+          props && "message" in props && typeof props.message === "string"
+            ? props.message
+            : tag;
+
+        super(message, options);
+        this.name = tag;
+        Object.assign(this, props);
+      }
+    }
+
+    return Tagged as unknown as TaggedErrorClass<Tag, Props>;
+  };
+}
+
+/**
+ * Check whether a value is a tagged error, optionally with a specific tag.
+ *
+ * @example
+ * ```ts
+ * isTaggedError(new NotFoundError({ id: "42" })); // true
+ * isTaggedError(new NotFoundError({ id: "42" }), "Timeout"); // false
+ * isTaggedError(new Error("error")); // false
+ * ```
+ */
+export function isTaggedError<const Tag extends string = string>(
+  error: unknown,
+  tag?: Tag,
+): error is TaggedError<Tag> {
+  return (
+    error instanceof Error &&
+    "_tag" in error &&
+    typeof error._tag === "string" &&
+    (tag === undefined || error._tag === tag)
+  );
+}
+
+/**
+ * Check whether a value has a string `_tag`, like the errors {@link catchTag} and {@link catchTags} match on.
+ *
+ * Unlike {@link isTaggedError}, plain objects match too, so the runtime agrees with {@link ErrorTag}.
+ */
+function hasTag(error: unknown, tag?: string): error is { _tag: string } {
+  return (
+    typeof error === "object" &&
+    error !== null &&
+    "_tag" in error &&
+    typeof error._tag === "string" &&
+    (tag === undefined || error._tag === tag)
+  );
+}
+
+/**
+ * Recover from an `Err` with a specific tag.
+ *
+ * If the result is an `Err` whose error has the provided `_tag`,
+ * the handler is called with the error and its result is returned.
+ *
+ * Otherwise, the original result is returned.
+ *
+ * The handled tag is removed from the error type.
+ *
+ * @example
+ * ```ts
+ * const result: Result<User, NotFoundError | TimeoutError> = getUser(id);
+ * const recovered = catchTag(result, "NotFound", (error) => ok(guestUser));
+ * // recovered is a Result<User, TimeoutError>
+ * ```
+ * @example
+ * ```ts
+ * const recovered = catchTag(fetchUser(id), "Timeout", () => fetchUser(id));
+ * // recovered is a Promise<Result<User, NotFoundError | TimeoutError>>
+ * ```
+ *
+ * @see {@link catchTags}
+ * @see {@link defineError}
+ */
+export function catchTag<
+  T,
+  E,
+  const K extends ErrorTag<E>,
+  U = never,
+  EE = never,
+>(
+  result: Promise<Result<T, E>>,
+  tag: K,
+  fn: (error: Extract<E, { readonly _tag: K }>) => MaybePromise<Result<U, EE>>,
+): Promise<Result<T | U, Exclude<E, { readonly _tag: K }> | EE>>;
+export function catchTag<
+  T,
+  E,
+  const K extends ErrorTag<E>,
+  U = never,
+  EE = never,
+>(
+  result: Result<T, E>,
+  tag: K,
+  fn: (error: Extract<E, { readonly _tag: K }>) => Promise<Result<U, EE>>,
+): Promise<Result<T | U, Exclude<E, { readonly _tag: K }> | EE>>;
+export function catchTag<
+  T,
+  E,
+  const K extends ErrorTag<E>,
+  U = never,
+  EE = never,
+>(
+  result: Result<T, E>,
+  tag: K,
+  fn: (error: Extract<E, { readonly _tag: K }>) => Result<U, EE>,
+): Result<T | U, Exclude<E, { readonly _tag: K }> | EE>;
+export function catchTag<T, E, U, EE>(
+  result: MaybePromise<Result<T, E>>,
+  tag: string,
+  fn: (error: never) => MaybePromise<Result<U, EE>>,
+): MaybePromise<Result<T | U, E | EE>> {
+  if (isPromise(result)) {
+    return result.then((x) => catchTag(x, tag as never, fn as never));
+  }
+
+  if (!result.ok && hasTag(result.error, tag)) {
+    return fn(unwrapErr(result) as never);
+  }
+
+  return result;
+}
+
+/**
+ * Recover from `Err`s with specific tags, using a handler for each tag.
+ *
+ * If the result is an `Err` whose error has a `_tag` with a matching handler,
+ * the handler is called with the error and its result is returned.
+ *
+ * Otherwise, the original result is returned.
+ *
+ * The handled tags are removed from the error type.
+ *
+ * @example
+ * ```ts
+ * const result: Result<User, NotFoundError | TimeoutError | ForbiddenError> = getUser(id);
+ * const recovered = catchTags(result, {
+ *   NotFound: () => ok(guestUser),
+ *   Timeout: (error) => err(`timed out after ${error.ms}ms`),
+ * });
+ * // recovered is a Result<User, ForbiddenError | string>
+ * ```
+ *
+ * @see {@link catchTag}
+ * @see {@link defineError}
+ */
+export function catchTags<T, E, const H extends CatchTagsHandlers<E>>(
+  result: Promise<Result<T, E>>,
+  handlers: H,
+): Promise<Awaited<CatchTagsReturn<T, E, H>>>;
+export function catchTags<T, E, const H extends CatchTagsHandlers<E>>(
+  result: Result<T, E>,
+  handlers: H,
+): CatchTagsReturn<T, E, H>;
+export function catchTags<T, E>(
+  result: MaybePromise<Result<T, E>>,
+  handlers: Record<
+    string,
+    ((error: never) => MaybePromise<Result<unknown, unknown>>) | undefined
+  >,
+): MaybePromise<Result<unknown, unknown>> {
+  if (isPromise(result)) {
+    return result.then((x) => catchTags(x, handlers as never));
+  }
+
+  if (!result.ok && hasTag(result.error)) {
+    const handler = Object.hasOwn(handlers, result.error._tag)
+      ? handlers[result.error._tag]
+      : undefined;
+
+    if (handler) {
+      return handler(unwrapErr(result) as never);
+    }
+  }
+
+  return result;
+}
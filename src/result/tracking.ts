@@ -0,0 +1,18 @@
+/**
+ * @internal
+ * Tracks `Err` results while debug mode is enabled.
+ *
+ * @see {@link enable}
+ */
+export type Tracker = {
+  track: (result: { error: unknown }) => void;
+  handle: (result: object) => void;
+};
+
+/**
+ * @internal
+ * The active tracker, only set while debug mode is enabled.
+ *
+ * The operators only check this property, so nothing else runs while debug mode is disabled.
+ */
+export const tracking: { tracker?: Tracker; stop?: () => void } = {};
@@ -0,0 +1,64 @@
+import { describe, expectTypeOf, it } from "vitest";
+import { isErr } from "./impl";
+import { type AbortError, TimeoutError, tryAsync$ } from "./try-async";
+import type { Result } from "./types";
+
+declare const work: Promise<number>;
+declare const signal: AbortSignal;
+
+describe("tryAsync$", () => {
+  it("should not add errors without options", () => {
+    expectTypeOf(tryAsync$<number, "error">(work)).toEqualTypeOf<
+      Promise<Result<number, "error">>
+    >();
+  });
+
+  it("should add the timeout error with a timeout", () => {
+    expectTypeOf(
+      tryAsync$<number, "error">(work, { timeout: 100 }),
+    ).toEqualTypeOf<Promise<Result<number, "error" | TimeoutError>>>();
+  });
+
+  it("should add the abort error with a signal", () => {
+    expectTypeOf(tryAsync$<number, "error">(work, { signal })).toEqualTypeOf<
+      Promise<Result<number, "error" | AbortError>>
+    >();
+    expectTypeOf(
+      tryAsync$<number, "error">(work, { signal, timeout: 100 }),
+    ).toEqualTypeOf<
+      Promise<Result<number, "error" | TimeoutError | AbortError>>
+    >();
+  });
+
+  it("should infer the error from mapError", () => {
+    expectTypeOf(
+      tryAsync$(work, { timeout: 100, mapError: (error) => String(error) }),
+    ).toEqualTypeOf<Promise<Result<number, string | TimeoutError>>>();
+  });
+
+  it("should keep the timeout error discriminable by default", async () => {
+    const result = await tryAsync$(work, { timeout: 100 });
+
+    expectTypeOf(result).toEqualTypeOf<Result<number, unknown>>();
+
+    if (isErr(result) && result.error instanceof TimeoutError) {
+      expectTypeOf(result.error).toEqualTypeOf<TimeoutError>();
+    }
+  });
+
+  it("should include both errors for optional options", () => {
+    expectTypeOf(
+      tryAsync$<number, "error">(work, {} as { timeout?: number }),
+    ).toEqualTypeOf<
+      Promise<Result<number, "error" | TimeoutError | AbortError>>
+    >();
+  });
+
+  it("should pass the signal to the function", () => {
+    tryAsync$((signal) => {
+      expectTypeOf(signal).toEqualTypeOf<AbortSignal>();
+
+      return work;
+    });
+  });
+});
@@ -0,0 +1,110 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { err, ok, unwrapErr } from "./impl";
+import { AbortError, TimeoutError, tryAsync$ } from "./try-async";
+import type { Err } from "./types";
+
+const never = () => new Promise<never>(() => undefined);
+
+describe("tryAsync$", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("should return the value if it succeeds", async () => {
+    await expect(tryAsync$(Promise.resolve(1))).resolves.toStrictEqual(ok(1));
+    await expect(tryAsync$(async () => 1)).resolves.toStrictEqual(ok(1));
+  });
+
+  it("should return the error if it fails", async () => {
+    const error = new Error("error");
+
+    await expect(tryAsync$(Promise.reject(error))).resolves.toStrictEqual(
+      err(error),
+    );
+    await expect(
+      tryAsync$(() => {
+        throw error;
+      }),
+    ).resolves.toStrictEqual(err(error));
+  });
+
+  it("should map the error of the work but not the timeout error", async () => {
+    const mapError = vi.fn((error: unknown) => String(error));
+
+    await expect(
+      tryAsync$(Promise.reject("error"), { timeout: 100, mapError }),
+    ).resolves.toStrictEqual(err("error"));
+
+    const result = tryAsync$(never(), { timeout: 100, mapError });
+    await vi.advanceTimersByTimeAsync(100);
+
+    expect(unwrapErr((await result) as Err<unknown>)).toBeInstanceOf(
+      TimeoutError,
+    );
+    expect(mapError).toHaveBeenCalledOnce();
+  });
+
+  it("should return a timeout error when the timeout passes", async () => {
+    const result = tryAsync$(never(), { timeout: 100 });
+
+    await vi.advanceTimersByTimeAsync(100);
+
+    const error = unwrapErr((await result) as Err<unknown>);
+
+    expect(error).toBeInstanceOf(TimeoutError);
+    expect(error).toHaveProperty("timeout", 100);
+  });
+
+  it("should not time out if the work finishes in time", async () => {
+    const result = tryAsync$(
+      new Promise((resolve) => setTimeout(() => resolve(1), 50)),
+      { timeout: 100 },
+    );
+
+    await vi.advanceTimersByTimeAsync(100);
+
+    await expect(result).resolves.toStrictEqual(ok(1));
+  });
+
+  it("should return an abort error when the signal is aborted", async () => {
+    const controller = new AbortController();
+    const result = tryAsync$(never(), { signal: controller.signal });
+
+    controller.abort("stop");
+
+    const error = unwrapErr((await result) as Err<unknown>);
+
+    expect(error).toBeInstanceOf(AbortError);
+    expect(error).toHaveProperty("cause", "stop");
+  });
+
+  it("should not run the function if the signal is already aborted", async () => {
+    const fn = vi.fn();
+    const result = await tryAsync$(fn, { signal: AbortSignal.abort() });
+
+    expect(unwrapErr(result as Err<unknown>)).toBeInstanceOf(AbortError);
+    expect(fn).not.toHaveBeenCalled();
+  });
+
+  it("should abort the signal passed to the function", async () => {
+    let signal: AbortSignal | undefined;
+    const result = tryAsync$(
+      (s) => {
+        signal = s;
+        return never();
+      },
+      { timeout: 100 },
+    );
+
+    await vi.advanceTimersByTimeAsync(0);
+    expect(signal?.aborted).toBe(false);
+
+    await vi.advanceTimersByTimeAsync(100);
+    expect(signal?.aborted).toBe(true);
+    expect(signal?.reason).toBe(unwrapErr((await result) as Err<unknown>));
+  });
+});
@@ -0,0 +1,122 @@
+import { isPromise } from "../helpers";
+import { err, try$ } from "./impl";
+import { defineError } from "./tagged";
+import type { Result, TryAsyncOptions } from "./types";
+
+/**
+ * The error returned by {@link tryAsync$} when the timeout passes.
+ */
+export class TimeoutError extends defineError("TimeoutError")<{
+  message: string;
+  timeout: number;
+}>() {}
+
+/**
+ * The error returned by {@link tryAsync$} when the signal is aborted.
+ *
+ * The `cause` is the reason of the signal.
+ */
+export class AbortError extends defineError("AbortError")<{
+  message: string;
+}>() {}
+
+/**
+ * Try to run async work and return a result, with an optional timeout and abort signal.
+ *
+ * Works like {@link try$}, but stops waiting when the `timeout` passes or the `signal` is aborted,
+ * and returns a {@link TimeoutError} or an {@link AbortError} respectively.
+ *
+ * If a function is passed, it gets a signal that is aborted in both of those cases,
+ * so the underlying work can actually stop.
+ *
+ * The timeout and abort errors are only part of the return type if the matching option is given.
+ * Errors thrown by the work itself are `unknown`, unless a `mapError` option is given or the error type is passed explicitly.
+ *
+ * @example
+ * ```ts
+ * const result = await tryAsync$((signal) => fetch(url, { signal }), {
+ *   timeout: 5000,
+ *   mapError: (error) => String(error),
+ * });
+ * // result is a Result<Response, string | TimeoutError>
+ * ```
+ * @example
+ * ```ts
+ * const controller = new AbortController();
+ * const result = tryAsync$(longRunningTask(), { signal: controller.signal });
+ * controller.abort();
+ * // result is an Err with an AbortError
+ * ```
+ *
+ * @see {@link try$}
+ */
+export function tryAsync$<T, E = unknown>(
+  fn: Promise<T> | ((signal: AbortSignal) => T | Promise<T>),
+  options: TryAsyncOptions<E> & { timeout: number; signal: AbortSignal },
+): Promise<Result<T, E | TimeoutError | AbortError>>;
+export function tryAsync$<T, E = unknown>(
+  fn: Promise<T> | ((signal: AbortSignal) => T | Promise<T>),
+  options: TryAsyncOptions<E> & { timeout: number; signal?: undefined },
+): Promise<Result<T, E | TimeoutError>>;
+export function tryAsync$<T, E = unknown>(
+  fn: Promise<T> | ((signal: AbortSignal) => T | Promise<T>),
+  options: TryAsyncOptions<E> & { timeout?: undefined; signal: AbortSignal },
+): Promise<Result<T, E | AbortError>>;
+export function tryAsync$<T, E = unknown>(
+  fn: Promise<T> | ((signal: AbortSignal) => T | Promise<T>),
+  options?: TryAsyncOptions<E> & { timeout?: undefined; signal?: undefined },
+): Promise<Result<T, E>>;
+export function tryAsync$<T, E = unknown>(
+  fn: Promise<T> | ((signal: AbortSignal) => T | Promise<T>),
+  options?: TryAsyncOptions<E>,
+): Promise<Result<T, E | TimeoutError | AbortError>>;
+export function tryAsync$<T, E>(
+  fn: Promise<T> | ((signal: AbortSignal) => T | Promise<T>),
+  options: TryAsyncOptions<E> = {},
+): Promise<Result<T, E | TimeoutError | AbortError>> {
+  const { timeout, signal, mapError } = options;
+  const controller = new AbortController();
+
+  return new Promise((resolve) => {
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const settle = (result: Result<T, E | TimeoutError | AbortError>) => {
+      clearTimeout(timer);
+      signal?.removeEventListener("abort", onAbort);
+      resolve(result);
+    };
+    const onAbort = () => {
+      const error = new AbortError(
+        { message: "The operation was aborted" },
+        { cause: signal?.reason },
+      );
+
+      controller.abort(error);
+      settle(err(error));
+    };
+
+    if (signal?.aborted) {
+      onAbort();
+      return;
+    }
+
+    signal?.addEventListener("abort", onAbort, { once: true });
+
+    if (timeout !== undefined) {
+      timer = setTimeout(() => {
+        const error = new TimeoutError({
+          message: `The operation timed out after ${timeout}ms`,
+          timeout,
+        });
+
+        controller.abort(error);
+        settle(err(error));
+      }, timeout);
+    }
+
+    const work = isPromise(fn)
+      ? fn
+      : Promise.resolve().then(() => fn(controller.signal));
+
+    (mapError ? try$(work, { mapError }) : try$<T, E>(work)).then(settle);
+  });
+}
@@ -1,5 +1,9 @@
 import { describe, expectTypeOf, it } from "vitest";
-import type { Err, Ok, ResultError, ResultValue } from "./types";
+import { err, ok, orElse, recover, tryMap } from "./impl";
+import type { Err, Ok, Result, ResultError, ResultValue } from "./types";
+
+declare const result: Result<number, "a" | "b">;
+declare const isA: (error: "a" | "b") => error is "a";
 
 describe("ResultValue", () => {
   it("should be the value if the result is an ok", () => {
@@ -28,3 +32,82 @@ describe("ResultError", () => {
     expectTypeOf<ResultError<Err<"an error">>>().toEqualTypeOf<"an error">();
   });
 });
+
+describe("tryMap", () => {
+  it("should union the errors of a sync callback", () => {
+    expectTypeOf(
+      tryMap(result, (x) => (x > 0 ? ok(String(x)) : err(new Error()))),
+    ).toEqualTypeOf<Result<string, "a" | "b" | Error>>();
+  });
+
+  it("should union the errors of an async callback", () => {
+    expectTypeOf(
+      tryMap(result, async (x) => (x > 0 ? ok(String(x)) : err(new Error()))),
+    ).toEqualTypeOf<Promise<Result<string, "a" | "b" | Error>>>();
+  });
+
+  it("should union the errors of a promise result", () => {
+    expectTypeOf(
+      tryMap(Promise.resolve(result), async (x) =>
+        x > 0 ? ok(String(x)) : err(new Error()),
+      ),
+    ).toEqualTypeOf<Promise<Result<string, "a" | "b" | Error>>>();
+  });
+});
+
+describe("orElse", () => {
+  it("should replace the error type with the callback's error type", () => {
+    expectTypeOf(
+      orElse(result, (error) => (error === "a" ? ok("fallback") : err(error))),
+    ).toEqualTypeOf<Result<number | "fallback", "b">>();
+  });
+
+  it("should be a promise for async callbacks", () => {
+    expectTypeOf(orElse(result, async () => ok("fallback"))).toEqualTypeOf<
+      Promise<Result<number | "fallback", never>>
+    >();
+  });
+
+  it("should be a promise for callbacks that may return a promise", () => {
+    expectTypeOf(
+      orElse(result, (error) =>
+        error === "a" ? ok(1) : Promise.resolve(ok(2)),
+      ),
+    ).toEqualTypeOf<Promise<Result<number, never>>>();
+  });
+
+  it("should be a promise for promise results", () => {
+    expectTypeOf(
+      orElse(Promise.resolve(result), () => err(new Error())),
+    ).toEqualTypeOf<Promise<Result<number, Error>>>();
+  });
+});
+
+describe("recover", () => {
+  it("should remove the error type", () => {
+    expectTypeOf(recover(result, () => "fallback")).toEqualTypeOf<
+      Result<number | string, never>
+    >();
+  });
+
+  it("should remove only the guarded error types", () => {
+    expectTypeOf(recover(result, isA, () => "fallback")).toEqualTypeOf<
+      Result<number | string, "b">
+    >();
+  });
+
+  it("should pass the guarded error to the callback", () => {
+    recover(result, isA, (error) => {
+      expectTypeOf(error).toEqualTypeOf<"a">();
+    });
+  });
+
+  it("should be a promise for async callbacks and promise results", () => {
+    expectTypeOf(recover(result, async () => 0)).toEqualTypeOf<
+      Promise<Result<number, never>>
+    >();
+    expectTypeOf(recover(Promise.resolve(result), isA, () => 0)).toEqualTypeOf<
+      Promise<Result<number, "b">>
+    >();
+  });
+});
@@ -1,3 +1,6 @@
+import type { StandardSchemaV1Issue } from "../standard-schema";
+import type { FieldError } from "./validate-all";
+
 /**
  * @internal
  * This type is used to create a result.
@@ -91,3 +94,575 @@ export type ResultError<TResult extends Result<any, any>> = TResult extends Err<
  * @see {@link tapErr}
  */
 export type TapFn<T> = (data: T) => void;
+
+/**
+ * @internal
+ * A value that may or may not be wrapped in a promise.
+ */
+export type MaybePromise<T> = T | Promise<T>;
+
+declare const checked: unique symbol;
+
+/**
+ * @internal
+ * A marker added to results narrowed by a predicate that is not a type guard.
+ *
+ * It keeps the narrowing one-sided:
+ * the `true` branch gets the variant, while the `false` branch keeps the whole result.
+ *
+ * @see {@link isOkAnd}
+ * @see {@link isErrAnd}
+ */
+export type Checked = { readonly [checked]: true };
+
+/**
+ * @internal
+ * Any kind of result.
+ */
+// biome-ignore lint/suspicious/noExplicitAny: This is required to properly implement some generics
+export type AnyResult = Result<any, any>;
+
+/**
+ * A collection of results (or promises of results).
+ *
+ * Can be an array, a tuple or an object record.
+ *
+ * @see {@link all}
+ * @see {@link partition}
+ */
+export type ResultCollection =
+  | readonly MaybePromise<AnyResult>[]
+  | { readonly [key: string]: MaybePromise<AnyResult> };
+
+/**
+ * @internal
+ * Union of all the items in a collection.
+ */
+export type CollectionItem<C> = C extends readonly unknown[]
+  ? C[number]
+  : C[keyof C];
+
+/**
+ * The data of every result in a collection, keeping the shape of the collection.
+ *
+ * @example
+ * ```ts
+ * type Values = CollectionValues<[Ok<1>, Result<string, Error>]>; // [1, string]
+ * type Values2 = CollectionValues<{ a: Ok<1>; b: Promise<Ok<"b">> }>; // { a: 1; b: "b" }
+ * ```
+ */
+export type CollectionValues<C> = {
+  -readonly [K in keyof C]: ResultValue<Extract<Awaited<C[K]>, AnyResult>>;
+};
+
+/**
+ * The error of every result in a collection, keeping the shape of the collection.
+ *
+ * @example
+ * ```ts
+ * type Errors = CollectionErrors<{ a: Err<"a">; b: Result<number, "b"> }>; // { a: "a"; b: "b" }
+ * ```
+ */
+export type CollectionErrors<C> = {
+  -readonly [K in keyof C]: ResultError<Extract<Awaited<C[K]>, AnyResult>>;
+};
+
+/**
+ * Union of the errors of all the results in a collection.
+ *
+ * @example
+ * ```ts
+ * type Error = CollectionError<[Err<"a">, Result<number, "b">]>; // "a" | "b"
+ * ```
+ */
+export type CollectionError<C> = ResultError<
+  Extract<Awaited<CollectionItem<C>>, AnyResult>
+>;
+
+/**
+ * @internal
+ * Wraps `R` in a promise if any of the items in the collection is a promise.
+ */
+export type CollectionReturn<C, R> = [
+  Extract<CollectionItem<C>, Promise<unknown>>,
+] extends [never]
+  ? R
+  : Promise<R>;
+
+/**
+ * A result that can be unwrapped with `yield*` inside of a {@link gen} block.
+ *
+ * Works in both sync and async generators.
+ *
+ * @see {@link gen}
+ */
+export type GenStep<T, E> = {
+  [Symbol.iterator](): Generator<Err<E>, T, unknown>;
+  [Symbol.asyncIterator](): AsyncGenerator<Err<E>, T, unknown>;
+};
+
+/**
+ * A promise of a result that can be unwrapped with `yield*` inside of an async {@link gen} block.
+ *
+ * @see {@link gen}
+ */
+export type AsyncGenStep<T, E> = {
+  [Symbol.asyncIterator](): AsyncGenerator<Err<E>, T, unknown>;
+};
+
+/**
+ * The function passed to {@link gen} blocks that turns results into steps that can be unwrapped with `yield*`.
+ *
+ * @see {@link gen}
+ */
+export type GenUnwrap = {
+  <T = never, E = never>(result: Promise<Result<T, E>>): AsyncGenStep<T, E>;
+  <T = never, E = never>(result: Result<T, E>): GenStep<T, E>;
+};
+
+/**
+ * An error with a literal `_tag` that can be used to tell errors apart.
+ *
+ * @see {@link defineError}
+ * @see {@link catchTag}
+ */
+export type TaggedError<Tag extends string = string> = Error & {
+  readonly _tag: Tag;
+};
+
+/**
+ * The class created by {@link defineError}.
+ *
+ * The props are optional if there are no props defined.
+ */
+export type TaggedErrorClass<Tag extends string, Props extends object> = {
+  new (
+    ...args: keyof Props extends never
+      ? [props?: Props, options?: ErrorOptions]
+      : [props: Props, options?: ErrorOptions]
+  ): TaggedError<Tag> & Readonly<Props>;
+  readonly _tag: Tag;
+};
+
+/**
+ * Union of the tags of the tagged errors in `E`.
+ *
+ * @example
+ * ```ts
+ * type Tags = ErrorTag<NotFoundError | TimeoutError | string>; // "NotFound" | "Timeout"
+ * ```
+ */
+export type ErrorTag<E> = E extends { readonly _tag: infer K extends string }
+  ? K
+  : never;
+
+/**
+ * @internal
+ * The handlers that can be passed to {@link catchTags}.
+ */
+export type CatchTagsHandlers<E> = {
+  [K in ErrorTag<E>]?: (
+    error: Extract<E, { readonly _tag: K }>,
+  ) => MaybePromise<AnyResult>;
+};
+
+/**
+ * @internal
+ * The result of {@link catchTags} with the given handlers.
+ */
+export type CatchTagsReturn<T, E, H> = [
+  Extract<HandlerReturn<H>, Promise<unknown>>,
+] extends [never]
+  ? CatchTagsResult<T, E, H>
+  : Promise<CatchTagsResult<T, E, H>>;
+
+/**
+ * @internal
+ */
+type CatchTagsResult<T, E, H> = Result<
+  T | ResultValue<Extract<Awaited<HandlerReturn<H>>, AnyResult>>,
+  | Exclude<E, { readonly _tag: keyof H }>
+  | ResultError<Extract<Awaited<HandlerReturn<H>>, AnyResult>>
+>;
+
+/**
+ * @internal
+ */
+type HandlerReturn<H> = ReturnType<
+  Extract<H[keyof H], (...args: never[]) => unknown>
+>;
+
+/**
+ * The handlers that can be passed to {@link match}.
+ */
+export type MatchHandlers<T, E, A, B> = {
+  ok: (data: T) => A;
+  err: (error: E) => B;
+};
+
+/**
+ * The error handlers that can be passed to {@link matchErr}.
+ *
+ * Every possible value of the `Key` field of `E` must have a handler.
+ */
+export type MatchErrHandlers<E, Key extends keyof E> = {
+  [K in E[Key] & PropertyKey]: (error: Extract<E, Record<Key, K>>) => unknown;
+};
+
+/**
+ * An issue reported while validating a value.
+ *
+ * @see {@link validate}
+ */
+export type ValidationIssue = StandardSchemaV1Issue;
+
+/**
+ * A result that was turned into a plain object by {@link serialize}.
+ *
+ * It can be safely passed through `JSON.stringify` or `structuredClone`.
+ */
+export type SerializedResult =
+  | {
+      ok: true;
+      data: unknown;
+    }
+  | {
+      ok: false;
+      error: unknown;
+    };
+
+/**
+ * An error that was turned into a plain object by {@link serialize}.
+ */
+export type SerializedError = {
+  "~error": {
+    name: string;
+    message: string;
+    stack?: string;
+    cause?: unknown;
+    errors?: unknown[];
+    fields?: Record<string, unknown>;
+  };
+};
+
+/**
+ * A map of error names to the classes used to rebuild them in {@link deserialize}.
+ *
+ * The built-in error classes are always included.
+ */
+export type ErrorRegistry = Record<
+  string,
+  abstract new (
+    ...args: never[]
+  ) => Error
+>;
+
+/**
+ * A single failed attempt recorded by {@link retry$}.
+ */
+export type RetryAttempt<E> = {
+  /**
+   * The number of the attempt, starting at 1.
+   */
+  attempt: number;
+  /**
+   * The error the attempt failed with.
+   */
+  error: E;
+  /**
+   * When the attempt started, as returned by the clock.
+   */
+  startedAt: number;
+  /**
+   * How long the attempt took, in milliseconds.
+   */
+  duration: number;
+  /**
+   * How long the next attempt was delayed for, in milliseconds.
+   *
+   * Not set for the last attempt.
+   */
+  delay?: number;
+};
+
+/**
+ * How long to wait between attempts in {@link retry$}.
+ *
+ * - `"exponential"` doubles the delay after each attempt
+ * - `"linear"` increases the delay by the base delay after each attempt
+ * - a number always waits the same amount of milliseconds
+ * - a function gets the attempt number and the error, and returns the delay
+ */
+export type RetryBackoff<E> =
+  | "exponential"
+  | "linear"
+  | number
+  | ((attempt: number, error: E) => number);
+
+/**
+ * The options for {@link retry$}.
+ */
+export type RetryOptions<E> = {
+  /**
+   * The maximum number of attempts, including the first one.
+   *
+   * @default 3
+   */
+  attempts?: number;
+  /**
+   * How long to wait between attempts.
+   *
+   * @default "exponential"
+   */
+  backoff?: RetryBackoff<E>;
+  /**
+   * The base delay used by the `"exponential"` and `"linear"` backoffs, in milliseconds.
+   *
+   * @default 100
+   */
+  delay?: number;
+  /**
+   * The maximum delay between attempts, in milliseconds.
+   *
+   * @default Infinity
+   */
+  maxDelay?: number;
+  /**
+   * Randomize the delays so that many clients don't retry at the same time.
+   *
+   * `true` picks a random delay between 0 and the computed delay.
+   *
+   * @default false
+   */
+  jitter?: boolean | ((delay: number) => number);
+  /**
+   * Decide whether an error should be retried.
+   *
+   * All errors are retried by default.
+   */
+  retryIf?: (error: E, attempt: number) => boolean;
+  /**
+   * Stop retrying when the signal is aborted.
+   */
+  signal?: AbortSignal;
+  /**
+   * The clock used for timing and waiting between attempts.
+   *
+   * Useful to test retries without real timers.
+   */
+  clock?: {
+    now?: () => number;
+    sleep?: (ms: number, signal?: AbortSignal) => Promise<void>;
+    random?: () => number;
+  };
+};
+
+/**
+ * The context passed to each attempt of {@link retry$}.
+ */
+export type RetryContext = {
+  attempt: number;
+  signal?: AbortSignal;
+};
+
+/**
+ * The options for {@link tryAsync$}.
+ */
+export type TryAsyncOptions<E = unknown> = {
+  /**
+   * Give up waiting after the given amount of milliseconds.
+   */
+  timeout?: number;
+  /**
+   * Give up waiting when the signal is aborted.
+   */
+  signal?: AbortSignal;
+  /**
+   * Map the error thrown by the work into the error of the result.
+   *
+   * The timeout and abort errors are not passed through it.
+   */
+  mapError?: (error: unknown) => E;
+};
+
+/**
+ * A class whose instances can be thrown, used to filter errors by `instanceof`.
+ */
+export type ErrorClass<E = unknown> = abstract new (...args: never[]) => E;
+
+/**
+ * The options for {@link try$}.
+ */
+export type TryOptions<E = unknown> = {
+  /**
+   * Only turn instances of these classes into an `Err`.
+   * Anything else is rethrown.
+   */
+  catch?: readonly ErrorClass[];
+  /**
+   * Map the caught error into the error of the result.
+   */
+  mapError?: (error: unknown) => E;
+};
+
+/**
+ * A sync or async iterable of results, like a paginated API or the lines of a file.
+ */
+export type ResultIterable<T, E> =
+  | AsyncIterable<Result<T, E>>
+  | Iterable<MaybePromise<Result<T, E>>>;
+
+/**
+ * The context passed to each task of {@link allLimit}.
+ */
+export type LimitContext = {
+  index: number;
+  signal?: AbortSignal;
+};
+
+/**
+ * A task run by {@link allLimit}.
+ */
+export type LimitTask = (context: LimitContext) => MaybePromise<AnyResult>;
+
+/**
+ * @internal
+ * The result of any of the given {@link allLimit} tasks.
+ */
+export type LimitTaskResult<F extends readonly LimitTask[]> = Awaited<
+  ReturnType<F[number]>
+>;
+
+/**
+ * The progress reported by {@link allLimit} after each task finishes.
+ */
+export type LimitProgress<R extends AnyResult> = {
+  /**
+   * The index of the task that just finished.
+   */
+  index: number;
+  result: R;
+  /**
+   * The number of tasks that finished so far.
+   */
+  completed: number;
+  total: number;
+};
+
+/**
+ * The options for {@link allLimit}.
+ */
+export type LimitOptions<R extends AnyResult> = {
+  /**
+   * The maximum number of tasks running at the same time.
+   *
+   * @default Infinity
+   */
+  concurrency?: number;
+  /**
+   * Stop starting new tasks after the first `Err`.
+   *
+   * @default false
+   */
+  stopOnErr?: boolean;
+  /**
+   * Stop starting new tasks when the signal is aborted.
+   * The signal is also passed to the tasks.
+   */
+  signal?: AbortSignal;
+  /**
+   * Called after each task finishes.
+   */
+  onProgress?: (progress: LimitProgress<R>) => void;
+};
+
+/**
+ * An `Err` that was garbage collected without ever being handled.
+ */
+export type UnhandledErr = {
+  error: unknown;
+  /**
+   * The stack trace of where the `Err` was created.
+   */
+  stack?: string;
+};
+
+/**
+ * The options for {@link enable}.
+ */
+export type DebugOptions = {
+  /**
+   * Called for every `Err` that was garbage collected without being handled.
+   *
+   * Logs the error with `console.error` by default.
+   */
+  onUnhandled?: (unhandled: UnhandledErr) => void;
+};
+
+/**
+ * An array with at least one item.
+ */
+export type NonEmptyArray<T> = [T, ...T[]];
+
+/**
+ * A result (or a promise of one), or plain objects and arrays of them, nested as deep as needed.
+ *
+ * @see {@link validateAll}
+ */
+export type ValidationTree =
+  | MaybePromise<AnyResult>
+  | readonly ValidationTree[]
+  | { readonly [key: string]: ValidationTree };
+
+/**
+ * @internal
+ * The data of a {@link ValidationTree}, in the same shape as the tree.
+ */
+export type ValidatedData<V> = V extends Promise<infer R extends AnyResult>
+  ? ResultValue<R>
+  : V extends AnyResult
+    ? ResultValue<V>
+    : { -readonly [K in keyof V]: ValidatedData<V[K]> };
+
+/**
+ * @internal
+ * The error of a single check, with the errors of nested validations unwrapped.
+ */
+type CheckError<E> = E extends NonEmptyArray<FieldError<infer I>> ? I : E;
+
+/**
+ * @internal
+ * The union of the errors of every check in a {@link ValidationTree}.
+ */
+export type ValidatedError<V> = V extends Promise<infer R extends AnyResult>
+  ? CheckError<ResultError<R>>
+  : V extends AnyResult
+    ? CheckError<ResultError<V>>
+    : V extends readonly unknown[]
+      ? ValidatedError<V[number]>
+      : ValidatedError<V[keyof V]>;
+
+/**
+ * @internal
+ * Whether any of the checks in a {@link ValidationTree} is a promise.
+ */
+type HasPromise<V> = V extends Promise<unknown>
+  ? true
+  : V extends AnyResult
+    ? false
+    : V extends readonly unknown[]
+      ? HasPromise<V[number]>
+      : HasPromise<V[keyof V]>;
+
+/**
+ * @internal
+ * The return type of {@link validateAll} for the given tree.
+ */
+export type ValidationReturn<V> = Result<
+  ValidatedData<V>,
+  NonEmptyArray<FieldError<ValidatedError<V>>>
+> extends infer R
+  ? true extends HasPromise<V>
+    ? Promise<R>
+    : R
+  : never;
@@ -0,0 +1,51 @@
+import { describe, expectTypeOf, it } from "vitest";
+import type { NonEmptyArray, Result } from "./types";
+import { type FieldError, validateAll, zipValidate } from "./validate-all";
+
+declare const name: Result<string, "required">;
+declare const zip: Result<string, "invalid zip">;
+declare const qty: Promise<Result<number, "too many">>;
+
+describe("validateAll", () => {
+  it("should infer the data and the errors", () => {
+    expectTypeOf(validateAll({ name, address: { zip } })).toEqualTypeOf<
+      Result<
+        { name: string; address: { zip: string } },
+        NonEmptyArray<FieldError<"required" | "invalid zip">>
+      >
+    >();
+  });
+
+  it("should return a promise if any check is a promise", () => {
+    expectTypeOf(validateAll({ name, items: [{ qty }] })).toEqualTypeOf<
+      Promise<
+        Result<
+          { name: string; items: [{ qty: number }] },
+          NonEmptyArray<FieldError<"required" | "too many">>
+        >
+      >
+    >();
+  });
+
+  it("should unwrap the errors of nested validations", () => {
+    expectTypeOf(
+      validateAll({ name, address: validateAll({ zip }) }),
+    ).toEqualTypeOf<
+      Result<
+        { name: string; address: { zip: string } },
+        NonEmptyArray<FieldError<"required" | "invalid zip">>
+      >
+    >();
+  });
+});
+
+describe("zipValidate", () => {
+  it("should infer a tuple", () => {
+    expectTypeOf(zipValidate(name, zip)).toEqualTypeOf<
+      Result<
+        [string, string],
+        NonEmptyArray<FieldError<"required" | "invalid zip">>
+      >
+    >();
+  });
+});
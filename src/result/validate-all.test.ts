@@ -0,0 +1,111 @@
+import { describe, expect, it } from "vitest";
+import { err, ok, unwrapErr } from "./impl";
+import type { Err } from "./types";
+import { FieldError, validateAll, zipValidate } from "./validate-all";
+
+const errors = (result: unknown) =>
+  unwrapErr(result as Err<FieldError[]>).map(({ path, error }) => ({
+    path,
+    error,
+  }));
+
+describe("validateAll", () => {
+  it("should collect the data in the same shape as the checks", () => {
+    expect(
+      validateAll({
+        name: ok("Ana"),
+        address: { zip: ok("10000") },
+        items: [{ qty: ok(1) }, { qty: ok(2) }],
+      }),
+    ).toStrictEqual(
+      ok({
+        name: "Ana",
+        address: { zip: "10000" },
+        items: [{ qty: 1 }, { qty: 2 }],
+      }),
+    );
+  });
+
+  it("should return every error with its path", () => {
+    const result = validateAll({
+      name: err("required"),
+      age: ok(1),
+      address: { zip: err("invalid zip") },
+      items: [{ qty: ok(1) }, { qty: err("too many") }],
+    });
+
+    expect(errors(result)).toStrictEqual([
+      { path: "name", error: "required" },
+      { path: "address.zip", error: "invalid zip" },
+      { path: "items[1].qty", error: "too many" },
+    ]);
+  });
+
+  it("should return field errors with readable messages", () => {
+    const [error] = unwrapErr(
+      validateAll({ age: err(new RangeError("too young")) }) as Err<
+        FieldError[]
+      >,
+    );
+
+    expect(error).toBeInstanceOf(FieldError);
+    expect(error?._tag).toBe("FieldError");
+    expect(error?.message).toBe("age: too young");
+  });
+
+  it("should merge the errors of nested validations", () => {
+    const result = validateAll({
+      address: validateAll({ zip: err("invalid zip") }),
+      items: zipValidate(
+        ok(1),
+        ok(2),
+        ok(3),
+        validateAll({ qty: err("zero") }),
+      ),
+    });
+
+    expect(errors(result)).toStrictEqual([
+      { path: "address.zip", error: "invalid zip" },
+      { path: "items[3].qty", error: "zero" },
+    ]);
+  });
+
+  it("should quote keys that are not identifiers", () => {
+    expect(
+      errors(validateAll({ "first name": err("required") })),
+    ).toStrictEqual([{ path: '["first name"]', error: "required" }]);
+  });
+
+  it("should wait for promises", async () => {
+    const result = validateAll({
+      name: Promise.resolve(ok("Ana")),
+      username: Promise.resolve(err("taken")),
+      age: err("required"),
+    });
+
+    expect(result).toBeInstanceOf(Promise);
+    expect(errors(await result)).toStrictEqual([
+      { path: "username", error: "taken" },
+      { path: "age", error: "required" },
+    ]);
+  });
+
+  it("should reject values that are not results", () => {
+    expect(() => validateAll({ name: "Ana" } as never)).toThrow(
+      'Expected a result at "name"',
+    );
+  });
+});
+
+describe("zipValidate", () => {
+  it("should collect the data into a tuple", () => {
+    expect(zipValidate(ok(1), ok("two"))).toStrictEqual(ok([1, "two"]));
+  });
+
+  it("should return every error with its position", () => {
+    expect(errors(zipValidate(err("a"), ok(1), err("b")))).toStrictEqual([
+      { path: "[0]", error: "a" },
+      { path: "[2]", error: "b" },
+    ]);
+  });
+});
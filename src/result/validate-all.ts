@@ -0,0 +1,187 @@
+import { isPlainObject, isPromise, stringify } from "../helpers";
+import { err, isErr, isResult, ok } from "./impl";
+import { defineError } from "./tagged";
+import type {
+  AnyResult,
+  MaybePromise,
+  Result,
+  ValidationReturn,
+  ValidationTree,
+} from "./types";
+
+/**
+ * The error of a single failed check in {@link validateAll}, with the path to where it happened.
+ *
+ * Paths look like `name`, `address.zip` or `items[3].qty`.
+ */
+export class FieldError<E = unknown> extends defineError("FieldError")<{
+  message: string;
+  path: string;
+  error: unknown;
+}>() {
+  declare readonly error: E;
+}
+
+function joinPath(prefix: string, path: string): string {
+  if (!prefix || !path) {
+    return prefix || path;
+  }
+
+  return path.startsWith("[") ? `${prefix}${path}` : `${prefix}.${path}`;
+}
+
+function keyPath(key: string | number): string {
+  if (typeof key === "number") {
+    return `[${key}]`;
+  }
+
+  return /^[A-Za-z_$][\w$]*$/.test(key) ? key : `[${JSON.stringify(key)}]`;
+}
+
+function fieldError(path: string, error: unknown): FieldError {
+  const message = error instanceof Error ? error.message : stringify(error);
+
+  return new FieldError({
+    message: path ? `${path}: ${message}` : message,
+    path,
+    error,
+  });
+}
+
+function isFieldErrors(error: unknown): error is FieldError[] {
+  return (
+    Array.isArray(error) &&
+    error.length > 0 &&
+    error.every((x) => x instanceof FieldError)
+  );
+}
+
+/**
+ * Rebuild the tree, replacing every result (or promise of one) with the return value of `fn`.
+ */
+function walk(
+  tree: ValidationTree,
+  path: string,
+  fn: (leaf: MaybePromise<AnyResult>, path: string) => unknown,
+): unknown {
+  if (isPromise(tree) || isResult(tree)) {
+    return fn(tree, path);
+  }
+
+  if (Array.isArray(tree)) {
+    return tree.map((x, i) => walk(x, joinPath(path, keyPath(i)), fn));
+  }
+
+  if (isPlainObject(tree)) {
+    return Object.fromEntries(
+      Object.entries(tree).map(([key, x]) => [
+        key,
+        walk(x as ValidationTree, joinPath(path, keyPath(key)), fn),
+      ]),
+    );
+  }
+
+  throw new TypeError(`Expected a result at "${path}", got ${stringify(tree)}`);
+}
+
+function collect(tree: ValidationTree): Result<unknown, FieldError[]> {
+  const errors: FieldError[] = [];
+  const data = walk(tree, "", (result, path) => {
+    const leaf = result as AnyResult;
+
+    if (!isErr(leaf)) {
+      return leaf.data;
+    }
+
+    if (isFieldErrors(leaf.error)) {
+      for (const x of leaf.error) {
+        errors.push(fieldError(joinPath(path, x.path), x.error));
+      }
+    } else {
+      errors.push(fieldError(path, leaf.error));
+    }
+
+    return undefined;
+  });
+
+  return errors.length > 0 ? err(errors) : ok(data);
+}
+
+function validateTree(
+  checks: ValidationTree,
+): MaybePromise<Result<unknown, FieldError[]>> {
+  const promises: Promise<AnyResult>[] = [];
+
+  walk(checks, "", (x) => {
+    if (isPromise(x)) {
+      promises.push(x);
+    }
+  });
+
+  if (promises.length === 0) {
+    return collect(checks);
+  }
+
+  return Promise.all(promises).then((results) => {
+    const resolved = new Map(promises.map((x, i) => [x, results[i]]));
+
+    return collect(
+      walk(checks, "", (x) =>
+        isPromise(x) ? resolved.get(x) : x,
+      ) as ValidationTree,
+    );
+  });
+}
+
+/**
+ * Run every check and combine them into a single result, without stopping at the first `Err`.
+ *
+ * The checks can be nested in plain objects and arrays.
+ * If every check is an `Ok`, the data is collected into the same shape as the checks.
+ *
+ * Otherwise, an `Err` with a {@link FieldError} for every failed check is returned.
+ * Each one has the path of the check, like `address.zip` or `items[3].qty`.
+ * The errors of nested `validateAll` and {@link zipValidate} calls are merged in, with their paths prefixed.
+ *
+ * If any of the checks is a promise, a promise is returned.
+ *
+ * @example
+ * ```ts
+ * const result = validateAll({
+ *   name: checkName(input.name),
+ *   address: { zip: checkZip(input.address.zip) },
+ *   items: input.items.map((item) => ({ qty: checkQty(item.qty) })),
+ * });
+ * // result is a Result<
+ * //   { name: string; address: { zip: string }; items: { qty: number }[] },
+ * //   NonEmptyArray<FieldError<NameError | ZipError | QtyError>>
+ * // >
+ * ```
+ *
+ * @see {@link zipValidate}
+ * @see {@link all}
+ */
+export function validateAll<const V extends ValidationTree>(
+  checks: V,
+): ValidationReturn<V> {
+  return validateTree(checks) as ValidationReturn<V>;
+}
+
+/**
+ * Run every check and combine them into a tuple, without stopping at the first `Err`.
+ *
+ * Works like {@link validateAll}, with paths like `[0]` for the positions of the checks.
+ *
+ * @example
+ * ```ts
+ * const result = zipValidate(checkName(name), checkAge(age));
+ * // result is a Result<[string, number], NonEmptyArray<FieldError<NameError | AgeError>>>
+ * ```
+ *
+ * @see {@link validateAll}
+ */
+export function zipValidate<const V extends readonly ValidationTree[]>(
+  ...checks: V
+): ValidationReturn<V> {
+  return validateTree(checks) as ValidationReturn<V>;
+}
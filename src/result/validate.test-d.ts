@@ -0,0 +1,34 @@
+import { describe, expectTypeOf, it } from "vitest";
+import type { StandardSchemaV1 } from "../standard-schema";
+import { isOk, tryMap } from "./impl";
+import type { Result, ValidationIssue } from "./types";
+import { validate, validateSync } from "./validate";
+
+declare const schema: StandardSchemaV1<string, { name: string }>;
+declare const body: Result<string, SyntaxError>;
+
+describe("validate", () => {
+  it("should use the output of the schema as the value", () => {
+    expectTypeOf(validate(schema, {})).toEqualTypeOf<
+      | Result<{ name: string }, ValidationIssue[]>
+      | Promise<Result<{ name: string }, ValidationIssue[]>>
+    >();
+  });
+});
+
+describe("validateSync", () => {
+  it("should return a plain result", () => {
+    expectTypeOf(validateSync(schema, {})).toEqualTypeOf<
+      Result<{ name: string }, ValidationIssue[]>
+    >();
+    expectTypeOf(isOk(validateSync(schema, {}))).toEqualTypeOf<boolean>();
+  });
+
+  it("should work in a sync tryMap", () => {
+    expectTypeOf(
+      tryMap(body, (data) => validateSync(schema, data)),
+    ).toEqualTypeOf<
+      Result<{ name: string }, SyntaxError | ValidationIssue[]>
+    >();
+  });
+});
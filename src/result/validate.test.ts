@@ -0,0 +1,63 @@
+import { describe, expect, it } from "vitest";
+import type { StandardSchemaV1 } from "../standard-schema";
+import { err, ok } from "./impl";
+import { validate, validateSync } from "./validate";
+
+const numberSchema: StandardSchemaV1<unknown, number> = {
+  "~standard": {
+    version: 1,
+    vendor: "test",
+    validate: (value) =>
+      typeof value === "number"
+        ? { value }
+        : { issues: [{ message: "Expected a number", path: ["value"] }] },
+  },
+};
+
+const asyncNumberSchema: StandardSchemaV1<unknown, number> = {
+  "~standard": {
+    ...numberSchema["~standard"],
+    validate: async (value) => numberSchema["~standard"].validate(value),
+  },
+};
+
+describe("validate", () => {
+  it("should return an ok with the output for valid input", () => {
+    expect(validate(numberSchema, 1)).toStrictEqual(ok(1));
+  });
+
+  it("should return an err with the issues for invalid input", () => {
+    expect(validate(numberSchema, "1")).toStrictEqual(
+      err([{ message: "Expected a number", path: ["value"] }]),
+    );
+  });
+
+  it("should return a promise for async schemas", async () => {
+    const result = validate(asyncNumberSchema, 1);
+
+    expect(result).toBeInstanceOf(Promise);
+    await expect(result).resolves.toStrictEqual(ok(1));
+    await expect(validate(asyncNumberSchema, "1")).resolves.toStrictEqual(
+      err([{ message: "Expected a number", path: ["value"] }]),
+    );
+  });
+});
+
+describe("validateSync", () => {
+  it("should return the result of sync schemas", () => {
+    expect(validateSync(numberSchema, 1)).toStrictEqual(ok(1));
+    expect(validateSync(numberSchema, "1")).toStrictEqual(
+      err([{ message: "Expected a number", path: ["value"] }]),
+    );
+  });
+
+  it("should return an err for async schemas", () => {
+    expect(validateSync(asyncNumberSchema, 1)).toStrictEqual(
+      err([
+        {
+          message: "The schema validates asynchronously, use validate instead",
+        },
+      ]),
+    );
+  });
+});
@@ -0,0 +1,93 @@
+import { isPromise } from "../helpers";
+import type {
+  StandardSchemaV1,
+  StandardSchemaV1Output,
+  StandardSchemaV1Result,
+} from "../standard-schema";
+import { err, ok } from "./impl";
+import type { MaybePromise, Result, ValidationIssue } from "./types";
+
+function toResult<T>(
+  result: StandardSchemaV1Result<T>,
+): Result<T, ValidationIssue[]> {
+  if (result.issues) {
+    return err([...result.issues]);
+  }
+
+  return ok(result.value);
+}
+
+/**
+ * Validate a value with any Standard Schema compliant validator (zod, valibot, arktype, ...).
+ *
+ * If the value is valid, an `Ok` with the parsed output is returned.
+ *
+ * Otherwise, an `Err` with the list of issues is returned.
+ *
+ * Schemas that validate asynchronously return a promise.
+ * Since the Standard Schema types don't say which schemas are async, the return type includes both.
+ *
+ * @example
+ * ```ts
+ * const User = z.object({ name: z.string() });
+ * const result = await validate(User, JSON.parse(body));
+ * // result is a Result<{ name: string }, ValidationIssue[]>
+ * ```
+ * @example
+ * ```ts
+ * const result = await chain(try$(request.json()))
+ *   .tryMap((body) => validate(User, body))
+ *   .map((user) => user.name);
+ * ```
+ *
+ * @see {@link ValidationIssue}
+ * @see {@link validateSync}
+ */
+export function validate<Schema extends StandardSchemaV1>(
+  schema: Schema,
+  input: unknown,
+): MaybePromise<Result<StandardSchemaV1Output<Schema>, ValidationIssue[]>> {
+  const result = schema["~standard"].validate(input);
+
+  if (isPromise(result)) {
+    return result.then(toResult);
+  }
+
+  return toResult(result);
+}
+
+/**
+ * Validate a value with a Standard Schema that is expected to be synchronous.
+ *
+ * Works like {@link validate}, but always returns a plain result,
+ * so it can be used in sync pipelines like `tryMap`.
+ *
+ * If the schema turns out to validate asynchronously, an `Err` with a single issue is returned instead.
+ *
+ * @example
+ * ```ts
+ * const User = z.object({ name: z.string() });
+ * const user = tryMap(try$(() => JSON.parse(body)), (data) =>
+ *   validateSync(User, data),
+ * );
+ * // user is a Result<{ name: string }, unknown>
+ * ```
+ *
+ * @see {@link validate}
+ */
+export function validateSync<Schema extends StandardSchemaV1>(
+  schema: Schema,
+  input: unknown,
+): Result<StandardSchemaV1Output<Schema>, ValidationIssue[]> {
+  const result = schema["~standard"].validate(input);
+
+  if (isPromise(result)) {
+    result.catch(() => undefined);
+
+    return err([
+      { message: "The schema validates asynchronously, use validate instead" },
+    ]);
+  }
+
+  return toResult(result);
+}
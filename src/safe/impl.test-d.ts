@@ -0,0 +1,26 @@
+import { describe, expectTypeOf, it } from "vitest";
+import { mapErr } from "../result/impl";
+import type { Result } from "../result/types";
+import {
+  type JsonParseError,
+  type UrlParseError,
+  parseJson,
+  parseUrl,
+} from "./impl";
+
+describe("$safe", () => {
+  it("should have precise error types", () => {
+    expectTypeOf(parseJson("{}")).toEqualTypeOf<
+      Result<unknown, JsonParseError>
+    >();
+    expectTypeOf(parseUrl("https://example.com")).toEqualTypeOf<
+      Result<URL, UrlParseError>
+    >();
+  });
+
+  it("should chain with mapErr", () => {
+    expectTypeOf(
+      mapErr(parseJson("{}"), (error) => error.position),
+    ).toEqualTypeOf<Result<unknown, number | undefined>>();
+  });
+});
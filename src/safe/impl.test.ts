@@ -0,0 +1,186 @@
+import { describe, expect, it } from "vitest";
+import { ok, unwrapErr } from "../result/impl";
+import type { Err } from "../result/types";
+import * as $safe from "./impl";
+
+function errorOf<E>(result: { ok: boolean }): E {
+  return unwrapErr(result as Err<E>);
+}
+
+describe("parseJson", () => {
+  it("should parse valid json", () => {
+    expect($safe.parseJson('{ "a": [1, 2] }')).toStrictEqual(ok({ a: [1, 2] }));
+  });
+
+  it("should pass the reviver", () => {
+    expect(
+      $safe.parseJson('{ "a": 1 }', (_key, value) =>
+        typeof value === "number" ? value + 1 : value,
+      ),
+    ).toStrictEqual(ok({ a: 2 }));
+  });
+
+  it("should return a JsonParseError with the position", () => {
+    const error = errorOf<$safe.JsonParseError>(
+      $safe.parseJson('{\n  "a": 1,\n  nope\n}'),
+    );
+
+    expect(error).toBeInstanceOf($safe.JsonParseError);
+    expect(error.cause).toBeInstanceOf(SyntaxError);
+    expect(error).toMatchObject({ position: 14, line: 3, column: 3 });
+  });
+
+  it("should point to the end for incomplete json", () => {
+    const error = errorOf<$safe.JsonParseError>($safe.parseJson("[1,"));
+
+    expect(error).toMatchObject({ position: 3, line: 1, column: 4 });
+  });
+});
+
+describe("stringifyJson", () => {
+  it("should stringify values", () => {
+    expect($safe.stringifyJson({ a: 1 }, undefined, 2)).toStrictEqual(
+      ok('{\n  "a": 1\n}'),
+    );
+  });
+
+  it.each([
+    [
+      "circular",
+      (() => {
+        const value: Record<string, unknown> = {};
+        value.self = value;
+
+        return value;
+      })(),
+    ],
+    ["bigint", { a: 1n }],
+    ["unsupported", undefined],
+    [
+      "unknown",
+      {
+        toJSON() {
+          throw new Error("nope");
+        },
+      },
+    ],
+  ])(
+    "should return a JsonStringifyError with the %s reason",
+    (reason, value) => {
+      const error = errorOf<$safe.JsonStringifyError>(
+        $safe.stringifyJson(value),
+      );
+
+      expect(error).toBeInstanceOf($safe.JsonStringifyError);
+      expect(error.reason).toBe(reason);
+    },
+  );
+});
+
+describe("parseUrl", () => {
+  it("should parse urls", () => {
+    const result = $safe.parseUrl("/users", "https://example.com");
+
+    expect(result).toStrictEqual(ok(new URL("https://example.com/users")));
+  });
+
+  it("should return a UrlParseError", () => {
+    const error = errorOf<$safe.UrlParseError>($safe.parseUrl("/users"));
+
+    expect(error).toBeInstanceOf($safe.UrlParseError);
+    expect(error).toMatchObject({ input: "/users", base: undefined });
+  });
+});
+
+describe("decodeUriComponent", () => {
+  it("should decode components", () => {
+    expect($safe.decodeUriComponent("a%20b")).toStrictEqual(ok("a b"));
+  });
+
+  it("should return a UriDecodeError", () => {
+    const error = errorOf<$safe.UriDecodeError>(
+      $safe.decodeUriComponent("%E0%A4%A"),
+    );
+
+    expect(error).toBeInstanceOf($safe.UriDecodeError);
+    expect(error.cause).toBeInstanceOf(URIError);
+    expect(error.input).toBe("%E0%A4%A");
+  });
+});
+
+describe("parseBigInt", () => {
+  it("should convert values", () => {
+    expect($safe.parseBigInt("12345678901234567890")).toStrictEqual(
+      ok(12345678901234567890n),
+    );
+  });
+
+  it.each(["nope", 1.5])("should return a BigIntParseError for %s", (input) => {
+    const error = errorOf<$safe.BigIntParseError>($safe.parseBigInt(input));
+
+    expect(error).toBeInstanceOf($safe.BigIntParseError);
+    expect(error.input).toBe(input);
+  });
+});
+
+describe("clone", () => {
+  it("should deep clone values", () => {
+    const value = { date: new Date(0), nested: { a: 1 } };
+    const result = $safe.clone(value);
+
+    expect(result).toStrictEqual(ok(value));
+    expect((result as { data: typeof value }).data.nested).not.toBe(
+      value.nested,
+    );
+  });
+
+  it("should return a CloneError", () => {
+    const error = errorOf<$safe.CloneError>($safe.clone({ fn: () => 1 }));
+
+    expect(error).toBeInstanceOf($safe.CloneError);
+  });
+});
+
+describe("compileRegExp", () => {
+  it("should compile patterns", () => {
+    expect($safe.compileRegExp("a+", "g")).toStrictEqual(ok(/a+/g));
+  });
+
+  it("should return a RegExpSyntaxError", () => {
+    const error = errorOf<$safe.RegExpSyntaxError>(
+      $safe.compileRegExp("[a-z", "g"),
+    );
+
+    expect(error).toBeInstanceOf($safe.RegExpSyntaxError);
+    expect(error).toMatchObject({ pattern: "[a-z", flags: "g" });
+  });
+});
+
+describe("decodeBase64", () => {
+  it("should decode base64", () => {
+    expect($safe.decodeBase64("aXNob2Q=")).toStrictEqual(ok("ishod"));
+  });
+
+  it("should return a Base64DecodeError", () => {
+    expect(errorOf($safe.decodeBase64("%%"))).toBeInstanceOf(
+      $safe.Base64DecodeError,
+    );
+  });
+});
+
+describe("decodeText", () => {
+  it("should decode text", () => {
+    expect($safe.decodeText(new TextEncoder().encode("ishod"))).toStrictEqual(
+      ok("ishod"),
+    );
+  });
+
+  it("should return a TextDecodeError for invalid data", () => {
+    const error = errorOf<$safe.TextDecodeError>(
+      $safe.decodeText(new Uint8Array([0xff])),
+    );
+
+    expect(error).toBeInstanceOf($safe.TextDecodeError);
+    expect(error.encoding).toBe("utf-8");
+  });
+});
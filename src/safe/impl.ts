@@ -0,0 +1,367 @@
+import { err, try$ } from "../result/impl";
+import { defineError } from "../result/tagged";
+import type { Result } from "../result/types";
+
+/**
+ * The error returned by {@link parseJson} for invalid JSON.
+ *
+ * The `position` (and the matching `line` and `column`, both starting at 1) point to where parsing failed.
+ * They are `undefined` if the engine's error message doesn't say.
+ *
+ * The `cause` is the original `SyntaxError`.
+ */
+export class JsonParseError extends defineError("JsonParseError")<{
+  message: string;
+  position: number | undefined;
+  line: number | undefined;
+  column: number | undefined;
+}>() {}
+
+/**
+ * The error returned by {@link stringifyJson} when the value can't be turned into JSON.
+ *
+ * The `reason` is:
+ * - `"circular"` for values with circular references
+ * - `"bigint"` for values containing a `BigInt`
+ * - `"unsupported"` for values that don't have a JSON representation (`undefined`, functions, symbols)
+ * - `"unknown"` for anything else, like a throwing `toJSON` method
+ *
+ * The `cause` is the original error, if there was one.
+ */
+export class JsonStringifyError extends defineError("JsonStringifyError")<{
+  message: string;
+  reason: "circular" | "bigint" | "unsupported" | "unknown";
+}>() {}
+
+/**
+ * The error returned by {@link parseUrl} for invalid URLs.
+ */
+export class UrlParseError extends defineError("UrlParseError")<{
+  message: string;
+  input: string;
+  base: string | undefined;
+}>() {}
+
+/**
+ * The error returned by {@link decodeUriComponent} for malformed escape sequences.
+ */
+export class UriDecodeError extends defineError("UriDecodeError")<{
+  message: string;
+  input: string;
+}>() {}
+
+/**
+ * The error returned by {@link parseBigInt} for values that aren't integers.
+ */
+export class BigIntParseError extends defineError("BigIntParseError")<{
+  message: string;
+  input: string | number | bigint | boolean;
+}>() {}
+
+/**
+ * The error returned by {@link clone} for values that can't be cloned (functions, DOM nodes, ...).
+ */
+export class CloneError extends defineError("CloneError")<{
+  message: string;
+}>() {}
+
+/**
+ * The error returned by {@link compileRegExp} for invalid patterns or flags.
+ */
+export class RegExpSyntaxError extends defineError("RegExpSyntaxError")<{
+  message: string;
+  pattern: string;
+  flags: string | undefined;
+}>() {}
+
+/**
+ * The error returned by {@link decodeBase64} for strings that aren't valid base64.
+ */
+export class Base64DecodeError extends defineError("Base64DecodeError")<{
+  message: string;
+}>() {}
+
+/**
+ * The error returned by {@link decodeText} for unsupported encodings or invalid data.
+ */
+export class TextDecodeError extends defineError("TextDecodeError")<{
+  message: string;
+  encoding: string;
+}>() {}
+
+function messageOf(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Find where JSON parsing failed from the error message.
+ *
+ * Engines report either a position (V8) or a line and column (SpiderMonkey),
+ * so the missing one is computed from the other.
+ */
+function jsonErrorLocation(
+  text: string,
+  message: string,
+): Pick<JsonParseError, "position" | "line" | "column"> {
+  const position = /at position (\d+)/.exec(message);
+  const lineColumn = /line (\d+) column (\d+)/.exec(message);
+
+  if (position) {
+    const offset = Number(position[1]);
+    const lines = text.slice(0, offset).split("\n");
+
+    return {
+      position: offset,
+      line: lines.length,
+      column: (lines.at(-1)?.length ?? 0) + 1,
+    };
+  }
+
+  if (lineColumn) {
+    const line = Number(lineColumn[1]);
+    const column = Number(lineColumn[2]);
+    const offset = text
+      .split("\n")
+      .slice(0, line - 1)
+      .reduce((acc, x) => acc + x.length + 1, 0);
+
+    return { position: offset + column - 1, line, column };
+  }
+
+  if (/end of (JSON )?(input|data)/i.test(message)) {
+    return jsonErrorLocation(text, `at position ${text.length}`);
+  }
+
+  return { position: undefined, line: undefined, column: undefined };
+}
+
+/**
+ * Parse a JSON string, like `JSON.parse`.
+ *
+ * @example
+ * ```ts
+ * const result = parseJson('{ "a": 1 }');
+ * // result is an Ok with the value { a: 1 }
+ * ```
+ * @example
+ * ```ts
+ * const result = parseJson("{ nope }");
+ * // result is an Err with a JsonParseError at position 2
+ * ```
+ *
+ * @see {@link stringifyJson}
+ */
+export function parseJson(
+  text: string,
+  reviver?: (this: unknown, key: string, value: unknown) => unknown,
+): Result<unknown, JsonParseError> {
+  return try$(() => JSON.parse(text, reviver) as unknown, {
+    mapError: (cause) => {
+      const message = messageOf(cause);
+
+      return new JsonParseError(
+        { message, ...jsonErrorLocation(text, message) },
+        { cause },
+      );
+    },
+  });
+}
+
+/**
+ * Turn a value into a JSON string, like `JSON.stringify`.
+ *
+ * Unlike `JSON.stringify`, values without a JSON representation return an `Err` instead of `undefined`.
+ *
+ * @example
+ * ```ts
+ * const result = stringifyJson({ a: 1n });
+ * // result is an Err with a JsonStringifyError with the reason "bigint"
+ * ```
+ *
+ * @see {@link parseJson}
+ */
+export function stringifyJson(
+  value: unknown,
+  replacer?: (this: unknown, key: string, value: unknown) => unknown,
+  space?: string | number,
+): Result<string, JsonStringifyError> {
+  const result = try$(() => JSON.stringify(value, replacer, space), {
+    mapError: (cause) => {
+      const message = messageOf(cause);
+      let reason: JsonStringifyError["reason"] = "unknown";
+
+      if (/circular|cyclic/i.test(message)) {
+        reason = "circular";
+      } else if (/bigint/i.test(message)) {
+        reason = "bigint";
+      }
+
+      return new JsonStringifyError({ message, reason }, { cause });
+    },
+  });
+
+  if (result.ok && result.data === undefined) {
+    return err(
+      new JsonStringifyError({
+        message: `Values of type ${typeof value} can't be turned into JSON`,
+        reason: "unsupported",
+      }),
+    );
+  }
+
+  return result as Result<string, JsonStringifyError>;
+}
+
+/**
+ * Parse a URL, like `new URL`.
+ *
+ * @example
+ * ```ts
+ * const result = parseUrl("/users", "https://example.com");
+ * // result is an Ok with the URL https://example.com/users
+ * ```
+ */
+export function parseUrl(
+  input: string | URL,
+  base?: string | URL,
+): Result<URL, UrlParseError> {
+  return try$(() => new URL(input, base), {
+    mapError: (cause) =>
+      new UrlParseError(
+        {
+          message: messageOf(cause),
+          input: String(input),
+          base: base === undefined ? undefined : String(base),
+        },
+        { cause },
+      ),
+  });
+}
+
+/**
+ * Decode a URI component, like `decodeURIComponent`.
+ *
+ * @example
+ * ```ts
+ * const result = decodeUriComponent("%E0%A4%A");
+ * // result is an Err with a UriDecodeError
+ * ```
+ */
+export function decodeUriComponent(
+  input: string,
+): Result<string, UriDecodeError> {
+  return try$(() => decodeURIComponent(input), {
+    mapError: (cause) =>
+      new UriDecodeError({ message: messageOf(cause), input }, { cause }),
+  });
+}
+
+/**
+ * Convert a value into a `BigInt`, like `BigInt(...)`.
+ *
+ * @example
+ * ```ts
+ * const result = parseBigInt("12345678901234567890");
+ * // result is an Ok with the value 12345678901234567890n
+ * ```
+ * @example
+ * ```ts
+ * const result = parseBigInt(1.5);
+ * // result is an Err with a BigIntParseError
+ * ```
+ */
+export function parseBigInt(
+  input: string | number | bigint | boolean,
+): Result<bigint, BigIntParseError> {
+  return try$(() => BigInt(input), {
+    mapError: (cause) =>
+      new BigIntParseError({ message: messageOf(cause), input }, { cause }),
+  });
+}
+
+/**
+ * Deep clone a value, like `structuredClone`.
+ *
+ * @example
+ * ```ts
+ * const result = clone({ date: new Date() });
+ * // result is an Ok with a copy of the object
+ * ```
+ * @example
+ * ```ts
+ * const result = clone({ fn: () => 1 });
+ * // result is an Err with a CloneError
+ * ```
+ */
+export function clone<T>(
+  value: T,
+  options?: Parameters<typeof structuredClone>[1],
+): Result<T, CloneError> {
+  return try$(() => structuredClone(value, options), {
+    mapError: (cause) =>
+      new CloneError({ message: messageOf(cause) }, { cause }),
+  });
+}
+
+/**
+ * Compile a regular expression, like `new RegExp`.
+ *
+ * @example
+ * ```ts
+ * const result = compileRegExp("[a-z", "g");
+ * // result is an Err with a RegExpSyntaxError
+ * ```
+ */
+export function compileRegExp(
+  pattern: string | RegExp,
+  flags?: string,
+): Result<RegExp, RegExpSyntaxError> {
+  return try$(() => new RegExp(pattern, flags), {
+    mapError: (cause) =>
+      new RegExpSyntaxError(
+        {
+          message: messageOf(cause),
+          pattern: pattern instanceof RegExp ? pattern.source : pattern,
+          flags,
+        },
+        { cause },
+      ),
+  });
+}
+
+/**
+ * Decode a base64 string into a binary string, like `atob`.
+ *
+ * @example
+ * ```ts
+ * const result = decodeBase64("aXNob2Q=");
+ * // result is an Ok with the value "ishod"
+ * ```
+ */
+export function decodeBase64(input: string): Result<string, Base64DecodeError> {
+  return try$(() => atob(input), {
+    mapError: (cause) =>
+      new Base64DecodeError({ message: messageOf(cause) }, { cause }),
+  });
+}
+
+/**
+ * Decode bytes into a string with a `TextDecoder` in fatal mode.
+ *
+ * Invalid data returns an `Err` instead of being replaced with `U+FFFD`.
+ *
+ * @example
+ * ```ts
+ * const result = decodeText(new Uint8Array([0xff]));
+ * // result is an Err with a TextDecodeError
+ * ```
+ */
+export function decodeText(
+  input: Parameters<TextDecoder["decode"]>[0],
+  encoding: ConstructorParameters<typeof TextDecoder>[0] = "utf-8",
+): Result<string, TextDecodeError> {
+  return try$(() => new TextDecoder(encoding, { fatal: true }).decode(input), {
+    mapError: (cause) =>
+      new TextDecodeError({ message: messageOf(cause), encoding }, { cause }),
+  });
+}
@@ -0,0 +1,73 @@
+/**
+ * The Standard Schema interface.
+ *
+ * Implemented by validation libraries like zod, valibot and arktype.
+ *
+ * Only the types are needed, so no dependency on any of the libraries is required.
+ *
+ * @see https://standardschema.dev
+ */
+export type StandardSchemaV1<Input = unknown, Output = Input> = {
+  readonly "~standard": StandardSchemaV1Props<Input, Output>;
+};
+
+/**
+ * The properties of a Standard Schema.
+ */
+export type StandardSchemaV1Props<Input = unknown, Output = Input> = {
+  readonly version: 1;
+  readonly vendor: string;
+  readonly validate: (
+    value: unknown,
+  ) => StandardSchemaV1Result<Output> | Promise<StandardSchemaV1Result<Output>>;
+  readonly types?: StandardSchemaV1Types<Input, Output> | undefined;
+};
+
+/**
+ * The result of validating a value with a Standard Schema.
+ */
+export type StandardSchemaV1Result<Output> =
+  | {
+      readonly value: Output;
+      readonly issues?: undefined;
+    }
+  | {
+      readonly issues: ReadonlyArray<StandardSchemaV1Issue>;
+    };
+
+/**
+ * An issue reported by a Standard Schema.
+ */
+export type StandardSchemaV1Issue = {
+  readonly message: string;
+  readonly path?:
+    | ReadonlyArray<PropertyKey | StandardSchemaV1PathSegment>
+    | undefined;
+};
+
+/**
+ * A segment of the path of a Standard Schema issue.
+ */
+export type StandardSchemaV1PathSegment = {
+  readonly key: PropertyKey;
+};
+
+/**
+ * The input and output types of a Standard Schema.
+ */
+export type StandardSchemaV1Types<Input = unknown, Output = Input> = {
+  readonly input: Input;
+  readonly output: Output;
+};
+
+/**
+ * Get the input type of a Standard Schema.
+ */
+export type StandardSchemaV1Input<Schema extends StandardSchemaV1> =
+  NonNullable<Schema["~standard"]["types"]>["input"];
+
+/**
+ * Get the output type of a Standard Schema.
+ */
+export type StandardSchemaV1Output<Schema extends StandardSchemaV1> =
+  NonNullable<Schema["~standard"]["types"]>["output"];
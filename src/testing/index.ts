@@ -0,0 +1,10 @@
+/* v8 ignore */
+import type { ResultMatchers } from "./matchers";
+
+export { matchers, type ResultMatchers } from "./matchers";
+
+declare module "vitest" {
+  // biome-ignore lint/suspicious/noExplicitAny: Has to match the Vitest declaration
+  interface Assertion<T = any> extends ResultMatchers<T> {}
+  interface AsymmetricMatchersContaining extends ResultMatchers {}
+}
@@ -0,0 +1,12 @@
+/* v8 ignore */
+import type { ResultMatchers } from "./matchers";
+
+export { matchers, type ResultMatchers } from "./matchers";
+
+declare global {
+  // biome-ignore lint/style/noNamespace: Jest declares its matchers in a global namespace
+  namespace jest {
+    interface Matchers<R> extends ResultMatchers<R> {}
+    interface Expect extends ResultMatchers {}
+  }
+}
@@ -0,0 +1,17 @@
+import { describe, expect, expectTypeOf, it } from "vitest";
+import "./index";
+
+describe("matchers", () => {
+  it("should be added to the assertions", () => {
+    expectTypeOf(expect(1).toBeOk).toBeFunction();
+    expectTypeOf(expect(1).not.toBeErrWith).parameter(0).toBeUnknown();
+    expectTypeOf(expect(Promise.resolve(1)).resolves.toBeOkWith(1)).toExtend<
+      Promise<unknown>
+    >();
+  });
+
+  it("should only accept classes for toBeErrInstanceOf", () => {
+    // @ts-expect-error Only classes can be checked
+    expect(1).toBeErrInstanceOf("Error");
+  });
+});
@@ -0,0 +1,113 @@
+import { beforeAll, describe, expect, it } from "vitest";
+import { err, ok } from "../result/impl";
+import { matchers } from "./index";
+
+beforeAll(() => {
+  expect.extend(matchers);
+});
+
+class HttpError extends Error {}
+
+describe("toBeOk", () => {
+  it("should pass for oks", () => {
+    expect(ok(1)).toBeOk();
+    expect(err(1)).not.toBeOk();
+  });
+
+  it("should fail for errs", () => {
+    expect(() => expect(err("error")).toBeOk()).toThrow(
+      /Expected an Ok, but received/,
+    );
+  });
+
+  it("should fail for values that are not results", () => {
+    expect(() => expect(1).toBeOk()).toThrow(/Expected a result/);
+  });
+
+  it("should work with promises", async () => {
+    await expect(Promise.resolve(ok(1))).resolves.toBeOk();
+  });
+});
+
+describe("toBeOkWith", () => {
+  it("should compare the data", () => {
+    expect(ok({ a: 1 })).toBeOkWith({ a: 1 });
+    expect(ok({ a: 1 })).not.toBeOkWith({ a: 2 });
+    expect(ok({ a: 1, b: 2 })).toBeOkWith(expect.objectContaining({ a: 1 }));
+  });
+
+  it("should print a diff of the data", () => {
+    expect(() => expect(ok({ a: 1 })).toBeOkWith({ a: 2 })).toThrow(
+      /Difference in data/,
+    );
+  });
+
+  it("should fail for errs", () => {
+    expect(() => expect(err({ a: 1 })).toBeOkWith({ a: 1 })).toThrow(
+      /Expected an Ok/,
+    );
+  });
+
+  it("should work with promises", async () => {
+    await expect(Promise.resolve(ok(1))).resolves.toBeOkWith(1);
+  });
+});
+
+describe("toBeErr", () => {
+  it("should pass for errs", () => {
+    expect(err("error")).toBeErr();
+    expect(ok(1)).not.toBeErr();
+  });
+
+  it("should fail for oks", () => {
+    expect(() => expect(ok(1)).toBeErr()).toThrow(
+      /Expected an Err, but received/,
+    );
+  });
+});
+
+describe("toBeErrWith", () => {
+  it("should compare the error", () => {
+    expect(err("error")).toBeErrWith("error");
+    expect(err("error")).not.toBeErrWith("other");
+    expect(err(new HttpError("nope"))).toBeErrWith(
+      expect.objectContaining({ message: "nope" }),
+    );
+  });
+
+  it("should print a diff of the error", () => {
+    expect(() => expect(err({ code: 1 })).toBeErrWith({ code: 2 })).toThrow(
+      /Difference in error/,
+    );
+  });
+
+  it("should work with promises", async () => {
+    await expect(Promise.resolve(err("error"))).resolves.toBeErrWith("error");
+  });
+
+  it("should work as an asymmetric matcher", () => {
+    expect({ result: err("error") }).toEqual({
+      result: expect.toBeErrWith("error"),
+    });
+  });
+});
+
+describe("toBeErrInstanceOf", () => {
+  it("should check the class of the error", () => {
+    expect(err(new HttpError())).toBeErrInstanceOf(HttpError);
+    expect(err(new HttpError())).toBeErrInstanceOf(Error);
+    expect(err(new Error())).not.toBeErrInstanceOf(HttpError);
+  });
+
+  it("should fail with the name of the class", () => {
+    expect(() => expect(err(new Error())).toBeErrInstanceOf(HttpError)).toThrow(
+      /to be an instance of HttpError/,
+    );
+  });
+
+  it("should fail for oks", () => {
+    expect(() => expect(ok(1)).toBeErrInstanceOf(HttpError)).toThrow(
+      /Expected an Err/,
+    );
+  });
+});
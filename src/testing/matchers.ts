@@ -0,0 +1,191 @@
+import { isResult } from "../result/impl";
+import type { ErrorClass, Result } from "../result/types";
+
+/**
+ * The parts of the matcher context that both Vitest and Jest provide.
+ */
+type MatcherContext = {
+  isNot: boolean;
+  equals: (a: unknown, b: unknown) => boolean;
+  utils: {
+    matcherHint: (
+      name: string,
+      received?: string,
+      expected?: string,
+      options?: { isNot?: boolean },
+    ) => string;
+    printReceived: (value: unknown) => string;
+    printExpected: (value: unknown) => string;
+    diff: (expected: unknown, received: unknown) => string | null | undefined;
+  };
+};
+
+/**
+ * The value a matcher returns.
+ */
+type MatcherResult = {
+  pass: boolean;
+  message: () => string;
+};
+
+/**
+ * The result matchers, as added to `expect` by {@link matchers}.
+ */
+export interface ResultMatchers<R = unknown> {
+  /**
+   * Check that the value is an `Ok`.
+   */
+  toBeOk(): R;
+  /**
+   * Check that the value is an `Ok` with data equal to the expected value.
+   *
+   * Asymmetric matchers like `expect.objectContaining` can be used.
+   */
+  toBeOkWith(expected: unknown): R;
+  /**
+   * Check that the value is an `Err`.
+   */
+  toBeErr(): R;
+  /**
+   * Check that the value is an `Err` with an error equal to the expected value.
+   *
+   * Asymmetric matchers like `expect.objectContaining` can be used.
+   */
+  toBeErrWith(expected: unknown): R;
+  /**
+   * Check that the value is an `Err` with an error that is an instance of the class.
+   */
+  toBeErrInstanceOf(expected: ErrorClass): R;
+}
+
+function hint(context: MatcherContext, name: string, expected = ""): string {
+  return context.utils.matcherHint(name, "result", expected, {
+    isNot: context.isNot,
+  });
+}
+
+function notAResult(context: MatcherContext, name: string, received: unknown) {
+  return `${hint(context, name)}\n\nExpected a result, but received: ${context.utils.printReceived(received)}`;
+}
+
+function checkVariant(
+  context: MatcherContext,
+  name: string,
+  received: unknown,
+  ok: boolean,
+): MatcherResult {
+  if (!isResult(received)) {
+    return { pass: false, message: () => notAResult(context, name, received) };
+  }
+
+  const variant = ok ? "an Ok" : "an Err";
+
+  return {
+    pass: received.ok === ok,
+    message: () =>
+      `${hint(context, name)}\n\nExpected ${context.isNot ? "not " : ""}${variant}, but received: ${context.utils.printReceived(received)}`,
+  };
+}
+
+function checkPayload(
+  context: MatcherContext,
+  name: string,
+  received: unknown,
+  ok: boolean,
+  expected: unknown,
+): MatcherResult {
+  if (!isResult(received)) {
+    return { pass: false, message: () => notAResult(context, name, received) };
+  }
+
+  const field = ok ? "data" : "error";
+
+  if (received.ok !== ok) {
+    return {
+      pass: false,
+      message: () =>
+        `${hint(context, name, "expected")}\n\nExpected ${ok ? "an Ok" : "an Err"}, but received: ${context.utils.printReceived(received)}`,
+    };
+  }
+
+  const actual = (
+    received as Result<unknown, unknown> & Record<string, unknown>
+  )[field];
+  const pass = context.equals(actual, expected);
+
+  return {
+    pass,
+    message: () => {
+      const header = `${hint(context, name, "expected")}\n\n`;
+
+      if (pass) {
+        return `${header}Expected ${field} not to equal: ${context.utils.printExpected(expected)}`;
+      }
+
+      const diff = context.utils.diff(expected, actual);
+
+      return diff
+        ? `${header}Difference in ${field}:\n\n${diff}`
+        : `${header}Expected ${field}: ${context.utils.printExpected(expected)}\nReceived ${field}: ${context.utils.printReceived(actual)}`;
+    },
+  };
+}
+
+/**
+ * Matchers for results, for use with `expect.extend` in Vitest or Jest.
+ *
+ * They also work on promises of results with `.resolves`.
+ *
+ * @example
+ * ```ts
+ * import { matchers } from "@allynet/ishod/testing";
+ *
+ * expect.extend(matchers);
+ *
+ * expect(ok(1)).toBeOkWith(1);
+ * expect(err(new TypeError("nope"))).toBeErrInstanceOf(TypeError);
+ * await expect(fetchUser("42")).resolves.toBeErrWith("not found");
+ * ```
+ */
+export const matchers = {
+  toBeOk(this: MatcherContext, received: unknown): MatcherResult {
+    return checkVariant(this, "toBeOk", received, true);
+  },
+  toBeOkWith(
+    this: MatcherContext,
+    received: unknown,
+    expected: unknown,
+  ): MatcherResult {
+    return checkPayload(this, "toBeOkWith", received, true, expected);
+  },
+  toBeErr(this: MatcherContext, received: unknown): MatcherResult {
+    return checkVariant(this, "toBeErr", received, false);
+  },
+  toBeErrWith(
+    this: MatcherContext,
+    received: unknown,
+    expected: unknown,
+  ): MatcherResult {
+    return checkPayload(this, "toBeErrWith", received, false, expected);
+  },
+  toBeErrInstanceOf(
+    this: MatcherContext,
+    received: unknown,
+    expected: ErrorClass,
+  ): MatcherResult {
+    const variant = checkVariant(this, "toBeErrInstanceOf", received, false);
+
+    if (!variant.pass) {
+      return variant;
+    }
+
+    const { error } = received as { error: unknown };
+    const name = expected.name || "the class";
+
+    return {
+      pass: error instanceof expected,
+      message: () =>
+        `${hint(this, "toBeErrInstanceOf", name)}\n\nExpected the error ${this.isNot ? "not " : ""}to be an instance of ${name}, but received: ${this.utils.printReceived(error)}`,
+    };
+  },
+} satisfies Record<keyof ResultMatchers, unknown>;
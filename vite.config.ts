@@ -1,23 +1,56 @@
 /// <reference types="vitest" />
+import { readFileSync } from "node:fs";
 import path from "node:path";
 
 import { defineConfig } from "vite";
 import dts from "vite-plugin-dts";
 
+const jestGlobals =
+  /declare global \{[\s\S]*?\n\}\n/.exec(
+    readFileSync(path.resolve(__dirname, "src/testing/jest.ts"), "utf8"),
+  )?.[0] ?? "";
+
 export default defineConfig({
   base: "./",
   plugins: [
     dts({
       rollupTypes: true,
+      exclude: ["src/**/*.test.ts", "src/**/*.test-d.ts"],
+      beforeWriteFile: (filePath, content) => {
+        // The Vitest matcher types only belong to the testing entry
+        if (filePath.endsWith("/testing.d.ts")) {
+          return;
+        }
+
+        const stripped = content.replace(
+          /declare module "vitest" \{[\s\S]*?\n\}\n?/,
+          "",
+        );
+
+        // The types rollup drops `declare global`, so the Jest matcher types are added back
+        if (filePath.endsWith("/testing-jest.d.ts")) {
+          return { content: `${stripped}\n${jestGlobals}` };
+        }
+
+        return { content: stripped };
+      },
     }),
   ],
   build: {
     sourcemap: true,
     lib: {
-      entry: [path.resolve(__dirname, "src/index.ts")],
+      entry: {
+        index: path.resolve(__dirname, "src/index.ts"),
+        testing: path.resolve(__dirname, "src/testing/index.ts"),
+        "testing-jest": path.resolve(__dirname, "src/testing/jest.ts"),
+        "node-fs": path.resolve(__dirname, "src/node/fs/index.ts"),
+      },
       formats: ["es", "cjs"],
       fileName: (format, entryName) => `${entryName}.${format}.js`,
     },
+    rollupOptions: {
+      external: [/^node:/],
+    },
   },
   test: {
     coverage: {